@@ -1,8 +1,30 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { AppState } from './types';
-import { loadFfmpeg, compressVideo, getVideoMetadata, VideoInfo, convertToGif } from './services/ffmpegService';
-import { UploadIcon, DownloadIcon, VideoIcon, SpinnerIcon, CopyIcon, TrashIcon, CheckIcon } from './components/icons';
+import { AppState, CompressionSettings, HistoryEntry, JobOverrides, JobStatus, OverlayType, Preset, QueueJob } from './types';
+import { loadFfmpeg, AspectRatio, CoreLoadProgress, getCoreInfo, OutputFormat, OUTPUT_FORMATS, RateControl, ReframeMode, compressVideo, estimateOutputSize, getReframeSize, getRotatedSize, Rotation, getAvailableOutputFormats, getFileExtension, compressVideoSegments, extractFrames, getSegments, getVideoMetadata, VideoInfo, convertToAnimation, ANIMATION_FORMATS, AnimationFormat, getAvailableAnimationFormats, isAbortError, AudioChannels, AudioFormat, AUDIO_FORMATS, extractAudio, ASPECT_RATIOS, OverlayOptions, OverlayPosition, SubtitleCue, SubtitleFont, SubtitleMode, SubtitleOptions, SubtitlePosition, SubtitleSize, buildVideoFilter, getAvailableQualityMetrics, measureQuality, QualityMetric, QualityReport, FfmpegJobInfo, getMaxInputSize, MemoryPressure, subscribeToJobs, analyzeComplexity, CurvePoint, DESTINATIONS, getBitsPerPixel, getLowBitrateWarning, recommendSettings, SizeRecommendation } from './services/ffmpegService';
+import { canShareFile, shareFile, takeSharedFile } from './services/shareTarget';
+import { BUILT_IN_PRESETS, exportPresetFile, loadDefaultPresetId, loadPresets, mergePresets, saveDefaultPresetId, savePresets, takeLinkedPreset, toPresetSettings, withValidSettings } from './services/presetStore';
+import { renderTextOverlay } from './services/overlayRenderer';
+import { parseSubtitles } from './services/subtitleParser';
+import { addHistoryEntry, clearHistory, deleteHistoryEntries, getHistoryOutputs, listHistory, loadHistoryQuotaMB, saveHistoryQuotaMB, trimHistory } from './services/historyStore';
+import { createZip, ZipEntry } from './services/zipService';
+import { formatBytes, formatDuration } from './utils/format';
+import { formatTimestamp, getTrimRange } from './utils/time';
+import { UploadIcon, DownloadIcon, VideoIcon, SpinnerIcon, CopyIcon, TrashIcon, CheckIcon, ShareIcon } from './components/icons';
 import { Faq } from './components/Faq';
+import { AudioPanel } from './components/AudioPanel';
+import { BatchQueue } from './components/BatchQueue';
+import { TrimTimeline } from './components/TrimTimeline';
+import { ReframePreview } from './components/ReframePreview';
+import { OverlayLayer } from './components/OverlayLayer';
+import { WatermarkPanel } from './components/WatermarkPanel';
+import { AnimationPanel } from './components/AnimationPanel';
+import { OrientationPanel } from './components/OrientationPanel';
+import { SubtitlePanel } from './components/SubtitlePanel';
+import { ComparisonView } from './components/ComparisonView';
+import { QualityPanel } from './components/QualityPanel';
+import { PresetPanel } from './components/PresetPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SizeAdvisorPanel } from './components/SizeAdvisorPanel';
 
 const DEFAULT_SETTINGS = {
   resolution: 720,
@@ -13,80 +35,323 @@ const DEFAULT_SETTINGS = {
   endTime: '',
   gifFps: 15,
   gifResolution: 480,
+  animationFormat: 'gif' as AnimationFormat,
+  animationLoop: 0,
+  animationPingPong: false,
+  animationSpeed: 1,
+  webpQuality: 75,
+  webpLossless: false,
+  animationSizeLimit: false,
+  animationTargetSizeMB: 5,
+  twoPass: false,
+  splitForStatus: false,
+  segmentLength: 60, // seconds, WhatsApp's Status limit
+  aspectRatio: 'original' as AspectRatio,
+  reframeMode: 'crop' as ReframeMode,
+  padColor: '#000000',
+  cropOffset: 0.5,
+  rotate: 0 as Rotation,
+  flipHorizontal: false,
+  flipVertical: false,
+  outputFormat: 'h264' as OutputFormat,
+  rateControl: 'target' as RateControl,
+  crf: OUTPUT_FORMATS.h264.crf.default,
+  audioStreamIndex: null as number | null,
+  audioBitrate: 128,
+  audioChannels: 'stereo' as AudioChannels,
+  normalizeLoudness: false,
+  fadeAudio: false,
+  extractAudio: false,
+  audioFormat: 'm4a' as AudioFormat,
+  overlayType: 'none' as OverlayType,
+  overlayText: '',
+  overlayPosition: 'bottom-right' as OverlayPosition,
+  overlaySize: 0.2,
+  overlayOpacity: 0.8,
+  overlayStartTime: '',
+  overlayEndTime: '',
+  subtitleMode: 'burn' as SubtitleMode,
+  subtitleFont: 'sans' as SubtitleFont,
+  subtitleSize: 'medium' as SubtitleSize,
+  subtitlePosition: 'bottom' as SubtitlePosition,
 };
 
-const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500 MB
+// Type reference for checking stored, imported and linked presets.
+const PRESET_REFERENCE = toPresetSettings(DEFAULT_SETTINGS);
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
 
-interface CompressionSettings {
-  resolution: number;
-  removeAudio: boolean;
-  targetSizeMB: number;
-  convertToGif: boolean;
-  startTime: string;
-  endTime: string;
-  gifFps: number;
-  gifResolution: number;
-}
+// Settings come back from storage, presets, links and the history, so any value
+// this build can't use falls back to the default. CRF is checked against the format.
+const toValidSettings = (settings: CompressionSettings): CompressionSettings => {
+  const valid = withValidSettings(settings, PRESET_REFERENCE);
+  const { crf } = OUTPUT_FORMATS[valid.outputFormat];
+  return {
+    ...valid,
+    crf: valid.crf >= crf.min && valid.crf <= crf.max ? valid.crf : crf.default,
+    rotate: ROTATIONS.includes(valid.rotate) ? valid.rotate : 0,
+  };
+};
+
+// Inputs are mounted, not copied, so the limit is the room FFmpeg has for the output.
+const MAX_FILE_SIZE = getMaxInputSize();
+const FILMSTRIP_FRAMES = 10;
+// The choices of the resolution select, highest first.
+const RESOLUTIONS = [1080, 720, 480];
+
+// The extension follows the MIME type the service stamped on the output blob.
+const getOutputFileName = (file: File, blob: Blob) =>
+  `compressed-${file.name.split('.').slice(0, -1).join('.') || 'video'}.${getFileExtension(blob.type)}`;
+
+const getSegmentFileName = (file: File, index: number, blob: Blob) =>
+  `compressed-${file.name.split('.').slice(0, -1).join('.') || 'video'}-part-${String(index + 1).padStart(2, '0')}.${getFileExtension(blob.type)}`;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  // FIX: Cast window to any to access document property due to missing DOM typings.
+  const a = (window as any).document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Turns and mirrors a preview image the way the encode's filters turn the frames.
+const orientImage = (src: string, orientation: Pick<CompressionSettings, 'rotate' | 'flipHorizontal' | 'flipVertical'>): Promise<string> =>
+  new Promise((resolve, reject) => {
+    // FIX: Cast window to any to access Image and document due to missing DOM typings.
+    const image = new (window as any).Image();
+    image.onload = () => {
+      const canvas = (window as any).document.createElement('canvas');
+      const { width, height } = getRotatedSize(image.width, image.height, orientation.rotate);
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      // Applied to the image in reverse: rotated first, then mirrored in the turned frame.
+      ctx.translate(width / 2, height / 2);
+      ctx.scale(orientation.flipHorizontal ? -1 : 1, orientation.flipVertical ? -1 : 1);
+      ctx.rotate((orientation.rotate * Math.PI) / 180);
+      ctx.drawImage(image, -image.width / 2, -image.height / 2);
+      resolve(canvas.toDataURL('image/jpeg'));
+    };
+    image.onerror = () => reject(new Error('Could not load the thumbnail.'));
+    image.src = src;
+  });
+
+// Applies a queued file's overrides and keeps the target below the source size,
+// mirroring the clamp applied when a single file is selected. A picked audio
+// track belongs to the single-file view, so batch jobs use FFmpeg's default.
+const resolveJobSettings = (settings: CompressionSettings, job: QueueJob): CompressionSettings => {
+  const resolved = { ...settings, ...job.overrides, audioStreamIndex: null };
+  const maxTargetSize = Math.floor(job.file.size / (1024 * 1024));
+  return { ...resolved, targetSizeMB: Math.min(resolved.targetSizeMB, maxTargetSize > 0 ? maxTargetSize : 1) };
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [compressedVideoBlob, setCompressedVideoBlob] = useState<Blob | null>(null);
+  const [segmentBlobs, setSegmentBlobs] = useState<Blob[]>([]);
+  const [copiedSegment, setCopiedSegment] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [thumbnail, setThumbnail] = useState<string | null>(null);
+  // The thumbnail as the encode will turn it.
+  const [orientedThumbnail, setOrientedThumbnail] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<VideoInfo | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [filmstrip, setFilmstrip] = useState<string[]>([]);
+  const [isFilmstripLoading, setIsFilmstripLoading] = useState(false);
   const [settings, setSettings] = useState<CompressionSettings>(() => {
     try {
       // FIX: Use window.localStorage and cast to any to fix "Cannot find name 'localStorage'" error.
       const savedSettings = (window as any).localStorage.getItem('compressionSettings');
-      return savedSettings ? { ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) } : DEFAULT_SETTINGS;
+      return savedSettings ? toValidSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) }) : DEFAULT_SETTINGS;
     } catch {
       return DEFAULT_SETTINGS;
     }
   });
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
   const [eta, setEta] = useState('');
+  const [queue, setQueue] = useState<QueueJob[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [availableFormats, setAvailableFormats] = useState<OutputFormat[]>(['h264']);
+  const [availableAnimationFormats, setAvailableAnimationFormats] = useState<AnimationFormat[]>(['gif']);
+  const [loadProgress, setLoadProgress] = useState<CoreLoadProgress | null>(null);
+  const [overlayImage, setOverlayImage] = useState<File | null>(null);
+  const [overlayPreview, setOverlayPreview] = useState<string | null>(null);
+  const [subtitleFile, setSubtitleFile] = useState<{ name: string; cues: SubtitleCue[] } | null>(null);
+  const [subtitleError, setSubtitleError] = useState<string | null>(null);
+  const [presets, setPresets] = useState<Preset[]>(() => loadPresets(PRESET_REFERENCE));
+  const [defaultPresetId, setDefaultPresetId] = useState<string | null>(loadDefaultPresetId);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyQuotaMB, setHistoryQuotaMB] = useState(loadHistoryQuotaMB);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const [copiedHistoryId, setCopiedHistoryId] = useState<string | null>(null);
+  const [ffmpegJobs, setFfmpegJobs] = useState<FfmpegJobInfo[]>([]);
+  const [memoryWarning, setMemoryWarning] = useState<MemoryPressure | null>(null);
+  const [resultUrl, setResultUrl] = useState<string | null>(null);
+  const [segmentUrls, setSegmentUrls] = useState<string[]>([]);
+  const [qualityMetrics, setQualityMetrics] = useState<QualityMetric[]>([]);
+  const [qualityReport, setQualityReport] = useState<QualityReport | null>(null);
+  const [qualityProgress, setQualityProgress] = useState(0);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [qualityError, setQualityError] = useState<string | null>(null);
+  const [sizeDestination, setSizeDestination] = useState(DESTINATIONS[0].id);
+  const [complexityCurve, setComplexityCurve] = useState<CurvePoint[] | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState(0);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const coreInfo = getCoreInfo();
   const compressionStartRef = useRef<number | null>(null);
+  // Controller for whichever FFmpeg job (probe, compression or batch run) is active.
+  const abortControllerRef = useRef<AbortController | null>(null);
   const inputFileRef = useRef<HTMLInputElement>(null);
+  // The history job being re-run, until its source video is picked again.
+  const rerunRef = useRef<HistoryEntry | null>(null);
   
   useEffect(() => {
     // FIX: Use window.localStorage and cast to any to fix "Cannot find name 'localStorage'" error.
     (window as any).localStorage.setItem('compressionSettings', JSON.stringify(settings));
   }, [settings]);
 
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  useEffect(() => {
+    saveDefaultPresetId(defaultPresetId);
+  }, [defaultPresetId]);
+
+  // Queued and running FFmpeg work, plus any memory warning raised before an input loads.
+  useEffect(() => subscribeToJobs(({ type, job }) => {
+    if (type === 'progress') return;
+    setFfmpegJobs(jobs => type === 'queued' || type === 'running'
+      ? [...jobs.filter(current => current.id !== job.id), job]
+      : jobs.filter(current => current.id !== job.id));
+    if (type === 'queued' && job.memoryPressure) {
+      setMemoryWarning(job.memoryPressure);
+    }
+  }), []);
+
+  useEffect(() => {
+    listHistory()
+      .then(setHistory)
+      .catch(err => console.error('Could not read the job history:', err));
+  }, []);
+
+  // Start with the default preset, or with the preset of a shared link the page was opened from.
+  useEffect(() => {
+    const defaultPreset = [...BUILT_IN_PRESETS, ...presets].find(preset => preset.id === defaultPresetId);
+    if (defaultPreset) {
+      applySettings(defaultPreset.settings);
+    }
+    try {
+      const linked = takeLinkedPreset(PRESET_REFERENCE);
+      if (!linked) return;
+      setPresets(p => mergePresets(p, [linked]));
+      applySettings(linked.settings);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not read the preset link.');
+    }
+  }, []);
+
+  // Same image the encoder will burn in, so the preview can't drift from the output.
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    const source = settings.overlayType === 'image' ? Promise.resolve(overlayImage)
+      : settings.overlayType === 'text' && settings.overlayText.trim() ? renderTextOverlay(settings.overlayText)
+      : Promise.resolve(null);
+    source
+      .then(image => {
+        if (cancelled) return;
+        url = image ? URL.createObjectURL(image) : null;
+        setOverlayPreview(url);
+      })
+      .catch(err => console.error('Failed to render the watermark preview:', err));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [settings.overlayType, settings.overlayText, overlayImage]);
+
+  useEffect(() => {
+    const { rotate, flipHorizontal, flipVertical } = settings;
+    if (!thumbnail || (rotate === 0 && !flipHorizontal && !flipVertical)) {
+      setOrientedThumbnail(thumbnail);
+      return;
+    }
+    let cancelled = false;
+    orientImage(thumbnail, { rotate, flipHorizontal, flipVertical })
+      .then(image => {
+        if (!cancelled) setOrientedThumbnail(image);
+      })
+      .catch(err => console.error('Failed to turn the preview:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbnail, settings.rotate, settings.flipHorizontal, settings.flipVertical]);
+
+  // One URL per result, so the players keep their position across re-renders.
+  useEffect(() => {
+    const url = compressedVideoBlob ? URL.createObjectURL(compressedVideoBlob) : null;
+    setResultUrl(url);
+    setQualityReport(null);
+    setQualityError(null);
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [compressedVideoBlob]);
+
+  // Same for the parts of a split; a URL per render would leak and reload every player.
+  useEffect(() => {
+    const urls = segmentBlobs.map(blob => URL.createObjectURL(blob));
+    setSegmentUrls(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [segmentBlobs]);
+
+  // The curve holds for one encoder and one stretch of one video.
+  useEffect(() => {
+    setComplexityCurve(null);
+    setAnalysisError(null);
+  }, [videoFile, settings.outputFormat, settings.startTime, settings.endTime]);
+
   useEffect(() => {
     const initFfmpeg = async () => {
       setAppState(AppState.LOADING_FFMPEG);
       try {
-        await loadFfmpeg();
+        await loadFfmpeg(setLoadProgress);
+        try {
+          const formats = await getAvailableOutputFormats();
+          setAvailableFormats(formats);
+          // A format saved from another build may not exist in this core.
+          setSettings(s => formats.includes(s.outputFormat) ? s : { ...s, outputFormat: 'h264', crf: OUTPUT_FORMATS.h264.crf.default });
+          const animationFormats = await getAvailableAnimationFormats();
+          setAvailableAnimationFormats(animationFormats);
+          setSettings(s => animationFormats.includes(s.animationFormat) ? s : { ...s, animationFormat: 'gif' });
+        } catch (err) {
+          console.error('Could not list FFmpeg encoders:', err);
+        }
+        try {
+          setQualityMetrics(await getAvailableQualityMetrics());
+        } catch (err) {
+          console.error('Could not list FFmpeg filters:', err);
+        }
         setAppState(AppState.READY);
       } catch (err) {
         console.error(err);
-        setError('Failed to load FFmpeg. This tool cannot work without it.');
+        const reason = err instanceof Error ? ` ${err.message}` : '';
+        setError(`Failed to load FFmpeg. This tool cannot work without it.${reason} Check your connection and reload the page.`);
         setAppState(AppState.ERROR);
       }
     };
     initFfmpeg();
   }, []);
 
-  const formatBytes = (bytes: number, decimals = 2) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-  };
-
-  const formatDuration = (totalSeconds: number) => {
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = Math.floor(totalSeconds % 60);
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  };
-
   const generateThumbnail = (file: File): Promise<string> => {
     return new Promise((resolve) => {
       // FIX: Cast window to any to access document property due to missing DOM typings.
@@ -109,41 +374,141 @@ const App: React.FC = () => {
     });
   };
 
-  const handleFileSelect = useCallback(async (file: File | null) => {
-    if (!file) return;
-
+  const validateFile = (file: File): string | null => {
     if (!file.type.startsWith('video/')) {
-        setError("Invalid file type. Please select a video file.");
-        return;
+        return "Invalid file type. Please select a video file.";
     }
-    
     if (file.size > MAX_FILE_SIZE) {
-        setError(`File is too large (${formatBytes(file.size)}). Please select a video under 500 MB.`);
+        return `File is too large (${formatBytes(file.size)}). Please select a video under ${formatBytes(MAX_FILE_SIZE, 0)} on this device.`;
+    }
+    return null;
+  };
+
+  const handleFileSelect = useCallback(async (file: File | null) => {
+    if (!file) return;
+
+    const validationError = validateFile(file);
+    if (validationError) {
+        setError(validationError);
         return;
     }
 
     setError(null);
     setVideoFile(file);
+    setVideoUrl(URL.createObjectURL(file));
     setCompressedVideoBlob(null);
+    setSegmentBlobs([]);
+    setSubtitleFile(null);
+    setSubtitleError(null);
+    // A trim range only makes sense for the video it was set on, unless that video is being re-run.
+    const rerun = rerunRef.current;
+    rerunRef.current = null;
+    setHistoryNotice(null);
+    setMemoryWarning(null);
+    if (rerun && rerun.sourceName === file.name && rerun.sourceSize === file.size) {
+        // Entries from before the orientation controls have no turn or flip.
+        const { startTime, endTime, audioStreamIndex, rotate = 0, flipHorizontal = false, flipVertical = false } = rerun.settings;
+        setSettings(s => ({ ...s, startTime, endTime, audioStreamIndex, rotate, flipHorizontal, flipVertical }));
+    } else {
+        setSettings(s => ({ ...s, startTime: '', endTime: '', audioStreamIndex: null, rotate: 0, flipHorizontal: false, flipVertical: false }));
+    }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let meta: VideoInfo;
     try {
         const thumb = await generateThumbnail(file);
         setThumbnail(thumb);
-        const meta = await getVideoMetadata(file);
+        meta = await getVideoMetadata(file, controller.signal);
         setMetadata(meta);
         const maxTargetSize = Math.floor(file.size / (1024 * 1024));
         setSettings(s => ({...s, targetSizeMB: Math.min(s.targetSizeMB, maxTargetSize > 0 ? maxTargetSize : 1)}));
     } catch (err) {
+        // The video was removed while its metadata was being read.
+        if (isAbortError(err)) return;
         console.error(err);
         setError("Could not process video metadata. The file might be corrupted.");
         handleReset();
+        return;
+    }
+
+    // The filmstrip is a nicety; the trim inputs still work without it.
+    setIsFilmstripLoading(true);
+    try {
+        const frames = await extractFrames(file, meta.duration, FILMSTRIP_FRAMES, controller.signal);
+        setFilmstrip(frames.map(frame => URL.createObjectURL(frame)));
+    } catch (err) {
+        if (!isAbortError(err)) console.error('Failed to extract filmstrip frames:', err);
+    } finally {
+        setIsFilmstripLoading(false);
     }
   }, []);
 
+  // Opened from the system share sheet: pick up the shared video once FFmpeg is ready.
+  const sharedFileCheckedRef = useRef(false);
+  useEffect(() => {
+    if (appState !== AppState.READY || sharedFileCheckedRef.current) return;
+    sharedFileCheckedRef.current = true;
+    takeSharedFile()
+      .then(file => { if (file) handleFileSelect(file); })
+      .catch(err => console.error('Failed to read the shared video:', err));
+  }, [appState, handleFileSelect]);
+
+  const updateJob = (id: string, patch: Partial<QueueJob>) => {
+    setQueue(q => q.map(job => job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const handleFilesSelect = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1 && queue.length === 0) {
+        handleFileSelect(files[0]);
+        return;
+    }
+
+    const rejected: string[] = [];
+    const newJobs: QueueJob[] = [];
+    for (const file of files) {
+        const validationError = validateFile(file);
+        if (validationError) {
+            rejected.push(`${file.name}: ${validationError}`);
+            continue;
+        }
+        newJobs.push({
+            id: crypto.randomUUID(),
+            file,
+            thumbnail: null,
+            metadata: null,
+            status: JobStatus.QUEUED,
+            progress: 0,
+            error: null,
+            overrides: {},
+            result: null,
+            resultName: null,
+        });
+    }
+    setError(rejected.length > 0 ? `Skipped ${rejected.length} file(s). ${rejected.join(' ')}` : null);
+    if (newJobs.length === 0) return;
+    setQueue(q => [...q, ...newJobs]);
+
+    // Probe one file at a time: every probe goes through the same FFmpeg instance.
+    for (const job of newJobs) {
+        try {
+            const thumb = await generateThumbnail(job.file);
+            updateJob(job.id, { thumbnail: thumb });
+            const meta = await getVideoMetadata(job.file);
+            updateJob(job.id, { metadata: meta });
+        } catch (err) {
+            console.error(err);
+            updateJob(job.id, { status: JobStatus.ERROR, error: 'Could not read video metadata. The file might be corrupted.' });
+        }
+    }
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     // FIX: Cast event.target to any to access 'files' property due to incomplete DOM typings.
-    const file = (event.target as any).files?.[0];
-    handleFileSelect(file || null);
+    const files: File[] = Array.from((event.target as any).files ?? []);
+    handleFilesSelect(files);
+    (event.target as any).value = '';
   };
   
   const handleDragEvents = (e: React.DragEvent<HTMLDivElement>, isEntering: boolean) => {
@@ -154,51 +519,151 @@ const App: React.FC = () => {
   
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
       handleDragEvents(e, false);
-      const file = (e.dataTransfer as any).files?.[0];
-      handleFileSelect(file || null);
+      const files: File[] = Array.from((e.dataTransfer as any).files ?? []);
+      handleFilesSelect(files);
   };
 
-  const showNotification = () => {
+  const showNotification = (body = `${videoFile?.name} is ready for download.`) => {
       if (!('Notification' in window)) return;
       // FIX: Access Notification via window and cast to any due to missing DOM typings.
       if ((window as any).Notification.permission === 'granted') {
           // FIX: Access Notification via window and cast to any due to missing DOM typings.
           new (window as any).Notification('Compression Complete!', {
-              body: `${videoFile?.name} is ready for download.`,
+              body,
               icon: '/favicon.ico'
           });
       // FIX: Access Notification via window and cast to any due to missing DOM typings.
       } else if ((window as any).Notification.permission !== 'denied') {
           // FIX: Property 'requestPermission' does not exist on type 'Notification'. Cast to any as a workaround for incomplete DOM typings.
           (window as any).Notification.requestPermission().then((permission: string) => {
-              if (permission === 'granted') showNotification();
+              if (permission === 'granted') showNotification(body);
           });
       }
   };
 
+  const resolveOverlay = async (jobSettings: CompressionSettings): Promise<OverlayOptions | null> => {
+    let image: Blob | null = null;
+    if (jobSettings.overlayType === 'image') {
+        image = overlayImage;
+    } else if (jobSettings.overlayType === 'text' && jobSettings.overlayText.trim()) {
+        image = await renderTextOverlay(jobSettings.overlayText);
+    }
+    if (!image) return null;
+    return {
+        image,
+        position: jobSettings.overlayPosition,
+        size: jobSettings.overlaySize,
+        opacity: jobSettings.overlayOpacity,
+        startTime: jobSettings.overlayStartTime,
+        endTime: jobSettings.overlayEndTime,
+    };
+  };
+
+  const handleSubtitleFile = async (file: File | null) => {
+    setSubtitleError(null);
+    if (!file) {
+        setSubtitleFile(null);
+        return;
+    }
+    const cues = parseSubtitles(await file.text());
+    if (cues.length === 0) {
+        setSubtitleFile(null);
+        setSubtitleError(`No subtitles found in ${file.name}. Use an SRT or WebVTT file.`);
+        return;
+    }
+    setSubtitleFile({ name: file.name, cues });
+  };
+
+  // Subtitles are timed to one video, so batch jobs never get them.
+  const resolveSubtitles = (jobSettings: CompressionSettings): SubtitleOptions | null => subtitleFile && {
+    cues: subtitleFile.cues,
+    mode: jobSettings.subtitleMode,
+    font: jobSettings.subtitleFont,
+    size: jobSettings.subtitleSize,
+    position: jobSettings.subtitlePosition,
+  };
+
+  const processFile = async (
+    file: File,
+    meta: VideoInfo,
+    jobSettings: CompressionSettings,
+    onProgress: (progress: { percentage: number; step?: string }) => void,
+    signal: AbortSignal,
+    subtitles: SubtitleOptions | null = null
+  ): Promise<Blob> => {
+    if (jobSettings.extractAudio) {
+        return extractAudio(file, meta.duration, jobSettings, onProgress, signal);
+    }
+    const overlay = await resolveOverlay(jobSettings);
+    if (jobSettings.convertToGif) {
+        return convertToAnimation(file, {
+            format: jobSettings.animationFormat,
+            resolution: jobSettings.gifResolution,
+            fps: jobSettings.gifFps,
+            startTime: jobSettings.startTime,
+            endTime: jobSettings.endTime,
+            loop: jobSettings.animationLoop,
+            pingPong: jobSettings.animationPingPong,
+            speed: jobSettings.animationSpeed,
+            webpQuality: jobSettings.webpQuality,
+            webpLossless: jobSettings.webpLossless,
+            targetSizeMB: jobSettings.animationSizeLimit ? jobSettings.animationTargetSizeMB : null,
+            rotate: jobSettings.rotate,
+            flipHorizontal: jobSettings.flipHorizontal,
+            flipVertical: jobSettings.flipVertical,
+            overlay,
+        }, onProgress, signal);
+    }
+    return compressVideo(file, meta.duration, { ...jobSettings, overlay, subtitles }, onProgress, signal);
+  };
+
+  // Keeps a finished job in the history. The output is already on screen, so a
+  // failure here is only reported next to the history list.
+  const recordHistory = async (file: File, jobThumbnail: string | null, jobSettings: CompressionSettings, duration: number, outputs: ZipEntry[]) => {
+    const entry: HistoryEntry = {
+        id: crypto.randomUUID(),
+        sourceName: file.name,
+        sourceSize: file.size,
+        settings: jobSettings,
+        outputNames: outputs.map(output => output.name),
+        outputType: outputs[0].data.type,
+        outputSize: outputs.reduce((total, output) => total + output.data.size, 0),
+        duration,
+        thumbnail: jobThumbnail,
+        createdAt: Date.now(),
+    };
+    try {
+        const stored = await addHistoryEntry(entry, outputs, historyQuotaMB);
+        setHistoryNotice(stored ? null : `${file.name} was not kept in the history: its output is larger than the ${formatBytes(historyQuotaMB * 1024 * 1024, 0)} limit.`);
+        setHistory(await listHistory());
+    } catch (err) {
+        console.error('Could not save the job to history:', err);
+        setHistoryNotice(err instanceof Error ? err.message : 'Could not save the job to history.');
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleCompress = async () => {
     if (!videoFile || !metadata) return;
+    if (settings.splitForStatus && !settings.convertToGif && !settings.extractAudio) {
+        handleCompressSegments();
+        return;
+    }
     setAppState(AppState.PROCESSING);
     setProgress(0);
     setEta('');
     compressionStartRef.current = Date.now();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     try {
-      let blob: Blob;
-      if (settings.convertToGif) {
-          blob = await convertToGif(videoFile, {
-              resolution: settings.gifResolution,
-              fps: settings.gifFps,
-              startTime: settings.startTime,
-              endTime: settings.endTime
-          }, ({ percentage, step }) => {
-              setProgress(percentage);
-              setProgressMessage(step);
-          });
-      } else {
-          blob = await compressVideo(videoFile, metadata.duration, settings, ({ percentage }) => {
+      const blob = await processFile(videoFile, metadata, settings, ({ percentage, step }) => {
             setProgress(percentage);
-            setProgressMessage('');
+            setProgressMessage(step ?? '');
+            if (settings.convertToGif) return;
             if (percentage > 0 && compressionStartRef.current) {
                 const elapsed = (Date.now() - compressionStartRef.current) / 1000; // in seconds
                 const totalTime = (elapsed / percentage) * 100;
@@ -209,76 +674,454 @@ const App: React.FC = () => {
                     setEta('');
                 }
             }
-          });
-      }
+      }, controller.signal, resolveSubtitles(settings));
       setCompressedVideoBlob(blob);
       setAppState(AppState.DONE);
+      recordHistory(videoFile, thumbnail, settings, getTrimRange(metadata.duration, settings.startTime, settings.endTime).duration,
+        [{ name: getOutputFileName(videoFile, blob), data: blob }]);
       // FIX: Cast window to any to access document property due to missing DOM typings.
       if ((window as any).document.hidden) {
         showNotification();
       }
     } catch (err) {
+      if (isAbortError(err)) {
+        // Back to the dashboard with the same file and settings.
+        setProgress(0);
+        setProgressMessage('');
+        setAppState(AppState.READY);
+        return;
+      }
       console.error(err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred during compression.');
       setAppState(AppState.ERROR);
     } finally {
         compressionStartRef.current = null;
+        abortControllerRef.current = null;
         setEta('');
     }
   };
 
+  const handleCompressSegments = async () => {
+    if (!videoFile || !metadata) return;
+    const range = getTrimRange(metadata.duration, settings.startTime, settings.endTime);
+    const segments = getSegments(range.start, range.end, settings.segmentLength);
+    if (range.error || segments.length === 0) {
+        setError(`Invalid trim range. ${range.error ?? 'The selected range is empty.'}`);
+        setAppState(AppState.ERROR);
+        return;
+    }
+
+    setAppState(AppState.PROCESSING);
+    setProgress(0);
+    setEta('');
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+        const overlay = await resolveOverlay(settings);
+        const blobs = await compressVideoSegments(videoFile, segments, { ...settings, overlay, subtitles: resolveSubtitles(settings) }, ({ percentage, step }) => {
+            setProgress(percentage);
+            setProgressMessage(step ?? '');
+        }, controller.signal);
+        setSegmentBlobs(blobs);
+        setAppState(AppState.DONE);
+        recordHistory(videoFile, thumbnail, settings, range.duration,
+            blobs.map((blob, i) => ({ name: getSegmentFileName(videoFile, i, blob), data: blob })));
+        // FIX: Cast window to any to access document property due to missing DOM typings.
+        if ((window as any).document.hidden) {
+            showNotification(`${blobs.length} Status parts of ${videoFile.name} are ready for download.`);
+        }
+    } catch (err) {
+        if (isAbortError(err)) {
+            setProgress(0);
+            setProgressMessage('');
+            setAppState(AppState.READY);
+            return;
+        }
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'An unknown error occurred during compression.');
+        setAppState(AppState.ERROR);
+    } finally {
+        abortControllerRef.current = null;
+    }
+  };
+
+  const handleDownloadSegmentsZip = async () => {
+    if (!videoFile || segmentBlobs.length === 0) return;
+    setIsZipping(true);
+    try {
+        const zip = await createZip(segmentBlobs.map((blob, i) => ({ name: getSegmentFileName(videoFile, i, blob), data: blob })));
+        downloadBlob(zip, `compressed-${videoFile.name.split('.').slice(0, -1).join('.') || 'video'}-parts.zip`);
+    } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Could not create the ZIP archive.');
+    } finally {
+        setIsZipping(false);
+    }
+  };
+
+  const handleMeasureQuality = async () => {
+    if (!videoFile || !metadata || !compressedVideoBlob || qualityMetrics.length === 0) return;
+    const range = getTrimRange(metadata.duration, settings.startTime, settings.endTime);
+    setIsMeasuring(true);
+    setQualityProgress(0);
+    setQualityError(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+        const report = await measureQuality(videoFile, compressedVideoBlob, {
+            clipStart: range.start,
+            clipDuration: range.end < metadata.duration ? range.duration : null,
+            fps: metadata.fps || 30,
+            // The source is turned and reframed like the encode, or the frames would not line up.
+            referenceFilter: settings.aspectRatio !== 'original' || isReoriented ? buildVideoFilter(settings.resolution, settings) : null,
+            metrics: qualityMetrics,
+        }, ({ percentage }) => setQualityProgress(percentage), controller.signal);
+        setQualityReport(report);
+    } catch (err) {
+        if (isAbortError(err)) return;
+        console.error(err);
+        setQualityError(err instanceof Error ? err.message : 'Could not measure the quality.');
+    } finally {
+        abortControllerRef.current = null;
+        setIsMeasuring(false);
+    }
+  };
+
+  const handleAnalyzeComplexity = async () => {
+    if (!videoFile || !metadata) return;
+    const range = getTrimRange(metadata.duration, settings.startTime, settings.endTime);
+    if (range.error) return;
+    setIsAnalyzing(true);
+    setAnalysisProgress(0);
+    setAnalysisError(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+        const curve = await analyzeComplexity(videoFile, {
+            clipStart: range.start,
+            clipDuration: range.duration,
+            fps: metadata.fps || 30,
+            displayAspect,
+            outputFormat: settings.outputFormat,
+        }, ({ percentage }) => setAnalysisProgress(percentage), controller.signal);
+        setComplexityCurve(curve);
+    } catch (err) {
+        if (isAbortError(err)) return;
+        console.error(err);
+        setAnalysisError(err instanceof Error ? err.message : 'Could not analyze the clip.');
+    } finally {
+        abortControllerRef.current = null;
+        setIsAnalyzing(false);
+    }
+  };
+
   const handleDownload = () => {
-    if (!compressedVideoBlob) return;
-    const url = URL.createObjectURL(compressedVideoBlob);
+    if (!compressedVideoBlob || !videoFile) return;
+    downloadBlob(compressedVideoBlob, getOutputFileName(videoFile, compressedVideoBlob));
+  };
+
+  const handleCompressAll = async () => {
+    const pending = queue.filter(job => job.status === JobStatus.QUEUED && job.metadata);
+    if (pending.length === 0) return;
+    setIsBatchRunning(true);
+    setError(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    let completed = 0;
+    for (const job of pending) {
+        const jobSettings = resolveJobSettings(settings, job);
+        updateJob(job.id, { status: JobStatus.PROCESSING, progress: 0 });
+        try {
+            const blob = await processFile(job.file, job.metadata!, jobSettings, ({ percentage }) => {
+                updateJob(job.id, { progress: percentage });
+            }, controller.signal);
+            updateJob(job.id, {
+                status: JobStatus.DONE,
+                progress: 100,
+                result: blob,
+                resultName: getOutputFileName(job.file, blob),
+            });
+            completed++;
+            recordHistory(job.file, job.thumbnail, jobSettings, getTrimRange(job.metadata!.duration, jobSettings.startTime, jobSettings.endTime).duration,
+                [{ name: getOutputFileName(job.file, blob), data: blob }]);
+        } catch (err) {
+            if (isAbortError(err)) {
+                // Leave the interrupted job and the rest of the queue ready to run again.
+                updateJob(job.id, { status: JobStatus.QUEUED, progress: 0 });
+                break;
+            }
+            console.error(err);
+            updateJob(job.id, {
+                status: JobStatus.ERROR,
+                error: err instanceof Error ? err.message : 'An unknown error occurred during compression.',
+            });
+        }
+    }
+
+    abortControllerRef.current = null;
+    setIsBatchRunning(false);
     // FIX: Cast window to any to access document property due to missing DOM typings.
-    const a = (window as any).document.createElement('a');
-    a.href = url;
-    const extension = settings.convertToGif ? 'gif' : 'mp4';
-    a.download = `compressed-${videoFile?.name.split('.').slice(0, -1).join('.') || 'video'}.${extension}`;
-    a.click();
-    URL.revokeObjectURL(url);
+    if ((window as any).document.hidden) {
+        showNotification(`${completed} of ${pending.length} videos are ready for download.`);
+    }
   };
 
-  const handleCopyToClipboard = async () => {
-    if (!compressedVideoBlob) return;
+  const handleDownloadAll = async () => {
+    const finished = queue.filter(job => job.result && job.resultName);
+    if (finished.length === 0) return;
+    setIsZipping(true);
+    try {
+        // Two sources can share a name, so suffix duplicates instead of overwriting entries.
+        const usedNames = new Map<string, number>();
+        const entries = finished.map(job => {
+            const name = job.resultName!;
+            const count = usedNames.get(name) ?? 0;
+            usedNames.set(name, count + 1);
+            const dot = name.lastIndexOf('.');
+            return {
+                name: count === 0 ? name : `${name.slice(0, dot)}-${count + 1}${name.slice(dot)}`,
+                data: job.result!,
+            };
+        });
+        const zip = await createZip(entries);
+        downloadBlob(zip, 'vidwa-compressed.zip');
+    } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Could not create the ZIP archive.');
+    } finally {
+        setIsZipping(false);
+    }
+  };
+
+  const handleClearQueue = () => {
+    setQueue([]);
+    setError(null);
+    if (inputFileRef.current) (inputFileRef.current as any).value = "";
+  };
+
+  const copyBlobToClipboard = async (blob: Blob, mimeType: string): Promise<boolean> => {
     try {
-      const mimeType = settings.convertToGif ? 'image/gif' : 'video/mp4';
       // FIX: Property 'ClipboardItem' does not exist on type 'Window'. Cast to any as a workaround.
-      const item = new (window as any).ClipboardItem({ [mimeType]: compressedVideoBlob });
+      const item = new (window as any).ClipboardItem({ [mimeType]: blob });
       // FIX: Property 'navigator' does not exist on type 'Window'. Cast to any as a workaround.
       await (window as any).navigator.clipboard.write([item]);
-      setCopyStatus('copied');
-      setTimeout(() => setCopyStatus('idle'), 2000);
+      return true;
     } catch (err) {
       console.error('Failed to copy to clipboard:', err);
       setError('Copy to clipboard failed. Your browser may not support this feature.');
+      return false;
+    }
+  };
+
+  const handleCopyToClipboard = async () => {
+    if (!compressedVideoBlob) return;
+    if (await copyBlobToClipboard(compressedVideoBlob, compressedVideoBlob.type)) {
+      setCopyStatus('copied');
+      setTimeout(() => setCopyStatus('idle'), 2000);
+    }
+  };
+
+  const resultFile = videoFile && compressedVideoBlob
+    ? new File([compressedVideoBlob], getOutputFileName(videoFile, compressedVideoBlob), { type: compressedVideoBlob.type })
+    : null;
+
+  const handleShare = async () => {
+    if (!resultFile) return;
+    try {
+      await shareFile(resultFile);
+    } catch (err) {
+      console.error('Failed to share:', err);
+      setError('Sharing failed. Download the file and share it from your gallery instead.');
+    }
+  };
+
+  const handleCopySegment = async (index: number) => {
+    if (await copyBlobToClipboard(segmentBlobs[index], segmentBlobs[index].type)) {
+      setCopiedSegment(index);
+      setTimeout(() => setCopiedSegment(current => current === index ? null : current), 2000);
+    }
+  };
+
+  const handleHistoryDownload = async (entry: HistoryEntry) => {
+    try {
+        const files = await getHistoryOutputs(entry.id);
+        if (files.length === 1) {
+            downloadBlob(files[0].data, files[0].name);
+            return;
+        }
+        setIsZipping(true);
+        const base = entry.sourceName.split('.').slice(0, -1).join('.') || 'video';
+        downloadBlob(await createZip(files), `compressed-${base}-parts.zip`);
+    } catch (err) {
+        console.error(err);
+        setHistoryNotice(err instanceof Error ? err.message : 'Could not read the job from the history.');
+    } finally {
+        setIsZipping(false);
+    }
+  };
+
+  const handleHistoryCopy = async (entry: HistoryEntry) => {
+    try {
+        const [file] = await getHistoryOutputs(entry.id);
+        if (await copyBlobToClipboard(file.data, entry.outputType)) {
+            setCopiedHistoryId(entry.id);
+            setTimeout(() => setCopiedHistoryId(current => current === entry.id ? null : current), 2000);
+        }
+    } catch (err) {
+        console.error(err);
+        setHistoryNotice(err instanceof Error ? err.message : 'Could not read the job from the history.');
+    }
+  };
+
+  // Sources aren't stored, so re-running loads the settings and asks for the video again.
+  const handleHistoryRerun = (entry: HistoryEntry) => {
+    rerunRef.current = entry;
+    applySettings(entry.settings);
+    setHistoryNotice(`Settings loaded. Select ${entry.sourceName} to run it again, and adjust anything before compressing.`);
+    (inputFileRef.current as any)?.click();
+  };
+
+  const handleHistoryDelete = async (ids: string[]) => {
+    try {
+        await deleteHistoryEntries(ids);
+        setHistory(h => h.filter(entry => !ids.includes(entry.id)));
+    } catch (err) {
+        console.error('Could not delete history entries:', err);
+    }
+  };
+
+  const handleHistoryClear = async () => {
+    // FIX: Cast window to any to access confirm due to missing DOM typings.
+    if (!(window as any).confirm(`Delete all ${history.length} jobs and their files from the history?`)) return;
+    try {
+        await clearHistory();
+        setHistory([]);
+        setHistoryNotice(null);
+    } catch (err) {
+        console.error('Could not clear the history:', err);
+    }
+  };
+
+  const handleHistoryQuotaChange = async (quotaMB: number) => {
+    setHistoryQuotaMB(quotaMB);
+    saveHistoryQuotaMB(quotaMB);
+    try {
+        const evicted = await trimHistory(quotaMB);
+        setHistory(h => h.filter(entry => !evicted.includes(entry.id)));
+    } catch (err) {
+        console.error('Could not apply the history limit:', err);
     }
   };
 
   const handleReset = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     setVideoFile(null);
     setCompressedVideoBlob(null);
+    setSegmentBlobs([]);
     setProgress(0);
     setProgressMessage('');
     setError(null);
     setThumbnail(null);
     setMetadata(null);
+    setSubtitleFile(null);
+    setSubtitleError(null);
+    setIsMeasuring(false);
+    setIsAnalyzing(false);
+    setMemoryWarning(null);
+    if (videoUrl) URL.revokeObjectURL(videoUrl);
+    setVideoUrl(null);
+    filmstrip.forEach(frame => URL.revokeObjectURL(frame));
+    setFilmstrip([]);
+    setIsFilmstripLoading(false);
     setAppState(AppState.READY);
     if (inputFileRef.current) (inputFileRef.current as any).value = "";
   };
   
-  const applyPreset = (preset: 'quality' | 'balanced' | 'size') => {
-      if (!videoFile) return;
-      const maxTargetSize = Math.floor(videoFile.size / (1024 * 1024));
-      let newSettings: Partial<CompressionSettings> = {};
-      if (preset === 'quality') {
-          newSettings = { resolution: 720, targetSizeMB: Math.min(12, maxTargetSize) };
-      } else if (preset === 'balanced') {
-          newSettings = { resolution: 720, targetSizeMB: Math.min(8, maxTargetSize) };
-      } else if (preset === 'size') {
-          newSettings = { resolution: 480, targetSizeMB: Math.min(5, maxTargetSize) };
-      }
-      setSettings(s => ({ ...s, ...newSettings, convertToGif: false }));
+  const trimRange = metadata ? getTrimRange(metadata.duration, settings.startTime, settings.endTime) : null;
+  // Length of each output file: the whole selection, or one part of it.
+  const clipDuration = trimRange
+    ? (settings.splitForStatus ? Math.min(settings.segmentLength, trimRange.duration) : trimRange.duration)
+    : 0;
+  const audioBitrate = settings.removeAudio ? 0 : settings.audioBitrate;
+  // Mirrors the bitrate split in compressVideo so the slider shows what the encoder will get.
+  const estimatedVideoBitrate = clipDuration > 0
+    ? (settings.targetSizeMB * 1024 * 8) / clipDuration - audioBitrate
+    : null;
+  const isTargetTooSmall = !settings.convertToGif && !settings.extractAudio && settings.rateControl !== 'crf'
+    && estimatedVideoBitrate !== null && estimatedVideoBitrate <= 0;
+
+  // The source frame as players show it, then as the encode turns it.
+  const displayFrame = metadata ? getRotatedSize(metadata.width, metadata.height, metadata.rotation) : null;
+  const displayAspect = displayFrame ? displayFrame.width / displayFrame.height : 1;
+  const turnedFrame = displayFrame ? getRotatedSize(displayFrame.width, displayFrame.height, settings.rotate) : null;
+  const turnedAspect = turnedFrame ? turnedFrame.width / turnedFrame.height : 1;
+  const isReoriented = settings.rotate !== 0 || settings.flipHorizontal || settings.flipVertical;
+  // The frame the encode produces at a resolution setting, which sizes the short side.
+  const getOutputFrame = (resolution: number) => settings.aspectRatio !== 'original'
+      ? getReframeSize(settings.aspectRatio, resolution)
+      : turnedAspect >= 1
+        ? { width: Math.round(resolution * turnedAspect), height: resolution }
+        : { width: resolution, height: Math.round(resolution / turnedAspect) };
+
+  // Ballpark size before encoding; exact in target mode, modelled for the CRF modes.
+  const estimatedSize = metadata && clipDuration > 0 && metadata.fps
+    ? estimateOutputSize(settings, { ...getOutputFrame(settings.resolution), fps: metadata.fps }, clipDuration)
+    : null;
+
+  // Checked before encoding, so a size that can only look blocky is flagged up front.
+  const sizeWarning = metadata && clipDuration > 0 && metadata.fps && settings.rateControl !== 'crf'
+    ? getLowBitrateWarning(
+        getBitsPerPixel(settings.targetSizeMB, clipDuration, audioBitrate, getOutputFrame(settings.resolution), metadata.fps),
+        settings.outputFormat, complexityCurve)
+    : null;
+  const sizeRecommendation = (() => {
+    if (!complexityCurve || !metadata || clipDuration <= 0) return null;
+    const destination = DESTINATIONS.find(option => option.id === sizeDestination) ?? DESTINATIONS[0];
+    return recommendSettings(complexityCurve, {
+        maxSizeMB: destination.maxSizeMB ?? settings.targetSizeMB,
+        duration: clipDuration,
+        audioBitrate,
+        fps: metadata.fps || 30,
+        outputs: RESOLUTIONS.map(resolution => ({ resolution, ...getOutputFrame(resolution) })),
+    });
+  })();
+
+  const handleTimelineChange = (start: number, end: number) => {
+    if (!metadata) return;
+    setSettings(s => ({
+        ...s,
+        startTime: start <= 0 ? '' : formatTimestamp(start),
+        endTime: end >= metadata.duration ? '' : formatTimestamp(end),
+    }));
+  };
+
+  // Largest source in play, so the slider and presets never exceed every file.
+  const sourceSize = Math.max(videoFile?.size || 0, ...queue.map(job => job.file.size));
+
+  const applySettings = (patch: Partial<CompressionSettings>) => {
+      const maxTargetSize = Math.floor(sourceSize / (1024 * 1024));
+      // Until the core has loaded its encoders are unknown; loading resets whatever it lacks.
+      const encodersKnown = appState !== AppState.IDLE && appState !== AppState.LOADING_FFMPEG;
+      setSettings(s => {
+          const next = toValidSettings({ ...s, ...patch });
+          // Settings saved with another build may name a codec this core lacks.
+          if (encodersKnown && !availableFormats.includes(next.outputFormat)) {
+              next.outputFormat = 'h264';
+              next.crf = OUTPUT_FORMATS.h264.crf.default;
+          }
+          if (encodersKnown && !availableAnimationFormats.includes(next.animationFormat)) {
+              next.animationFormat = 'gif';
+          }
+          if (sourceSize) {
+              next.targetSizeMB = Math.min(next.targetSizeMB, maxTargetSize > 0 ? maxTargetSize : 1);
+          }
+          return next;
+      });
   };
   
   const renderInitial = () => (
@@ -293,17 +1136,65 @@ const App: React.FC = () => {
             <span className="mt-4 text-xl font-medium text-gray-200">
                 Drag & Drop or Click to Upload
             </span>
-            <p className="text-md text-gray-400 mt-1">MP4, MOV, AVI, etc. (Max 500 MB)</p>
+            <p className="text-md text-gray-400 mt-1">MP4, MOV, AVI, etc. (Max {formatBytes(MAX_FILE_SIZE, 0)} each). Select several files to compress them as a batch.</p>
         </label>
-        <input ref={inputFileRef} id="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept="video/*" />
+        <input ref={inputFileRef} id="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept="video/*" multiple />
+        {error && <p className="text-sm text-red-300 mt-4 text-center">{error}</p>}
+        <HistoryPanel entries={history} quotaMB={historyQuotaMB} notice={historyNotice} copiedId={copiedHistoryId}
+            onQuotaChange={handleHistoryQuotaChange} onDownload={handleHistoryDownload} onCopy={handleHistoryCopy}
+            onRerun={handleHistoryRerun} onDelete={handleHistoryDelete} onClear={handleHistoryClear} />
     </div>
   );
   
+  const renderMemoryWarning = () => memoryWarning && (
+    <p className={`text-sm p-3 rounded-lg ${memoryWarning.level === 'critical' ? 'bg-red-500/20 text-red-200' : 'bg-yellow-500/10 text-yellow-200'}`}>
+        {memoryWarning.message}
+    </p>
+  );
+
   const renderDashboard = () => (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
         <div className="space-y-4">
             <h3 className="text-xl font-semibold text-white">Video Details</h3>
-            {thumbnail && <img src={thumbnail} alt="Video thumbnail" className="rounded-lg w-full" />}
+            {renderMemoryWarning()}
+            {orientedThumbnail && metadata && settings.aspectRatio !== 'original' && !settings.convertToGif && !settings.extractAudio ? (
+                <ReframePreview
+                    thumbnail={orientedThumbnail}
+                    sourceWidth={turnedFrame!.width}
+                    sourceHeight={turnedFrame!.height}
+                    aspectRatio={settings.aspectRatio}
+                    mode={settings.reframeMode}
+                    padColor={settings.padColor}
+                    cropOffset={settings.cropOffset}
+                    onCropOffsetChange={(cropOffset) => setSettings(s => ({ ...s, cropOffset }))}
+                >
+                    {overlayPreview && (
+                        <OverlayLayer src={overlayPreview} position={settings.overlayPosition} size={settings.overlaySize}
+                            opacity={settings.overlayOpacity} frameAspect={ASPECT_RATIOS[settings.aspectRatio]} />
+                    )}
+                </ReframePreview>
+            ) : (
+                orientedThumbnail && (
+                    <div className="relative overflow-hidden rounded-lg">
+                        <img src={orientedThumbnail} alt="Video thumbnail" className="rounded-lg w-full" />
+                        {overlayPreview && metadata && !settings.extractAudio && (
+                            <OverlayLayer src={overlayPreview} position={settings.overlayPosition} size={settings.overlaySize}
+                                opacity={settings.overlayOpacity}
+                                frameAspect={turnedAspect} />
+                        )}
+                    </div>
+                )
+            )}
+            {metadata && trimRange && videoUrl && (
+                <TrimTimeline
+                    duration={metadata.duration}
+                    start={Math.min(trimRange.start, metadata.duration)}
+                    end={Math.min(trimRange.end, metadata.duration)}
+                    frames={filmstrip}
+                    videoUrl={videoUrl}
+                    onChange={handleTimelineChange}
+                />
+            )}
             <div className="bg-white/5 p-4 rounded-lg space-y-2 text-sm">
                 <div className="flex justify-between items-center text-gray-300">
                     <span className="font-semibold">Filename:</span>
@@ -321,12 +1212,45 @@ const App: React.FC = () => {
                         </div>
                         <div className="flex justify-between items-center text-gray-300">
                             <span className="font-semibold">Resolution:</span>
-                            <span className="font-mono text-white">{metadata.width}x{metadata.height}</span>
+                            {/* As shown after the source's rotation and the user's turn, not the coded size. */}
+                            <span className="font-mono text-white">{turnedFrame!.width}x{turnedFrame!.height}</span>
                         </div>
                         <div className="flex justify-between items-center text-gray-300">
                             <span className="font-semibold">Frame Rate:</span>
-                            <span className="font-mono text-white">{metadata.fps.toFixed(2)} FPS</span>
+                            <span className="font-mono text-white">{metadata.fps.toFixed(2)} FPS{metadata.isVariableFrameRate ? ' (VFR)' : ''}</span>
+                        </div>
+                        <div className="flex justify-between items-center text-gray-300">
+                            <span className="font-semibold">Codec:</span>
+                            <span className="font-mono text-white">{metadata.codec}{metadata.pixelFormat ? ` (${metadata.pixelFormat})` : ''}</span>
                         </div>
+                        {metadata.bitrate !== null && (
+                            <div className="flex justify-between items-center text-gray-300">
+                                <span className="font-semibold">Bitrate:</span>
+                                <span className="font-mono text-white">{metadata.bitrate} kb/s</span>
+                            </div>
+                        )}
+                        {metadata.rotation !== 0 && (
+                            <div className="flex justify-between items-center text-gray-300">
+                                <span className="font-semibold">Rotation:</span>
+                                <span className="font-mono text-white">{metadata.rotation}°</span>
+                            </div>
+                        )}
+                        <div className="flex justify-between items-start text-gray-300">
+                            <span className="font-semibold">Audio:</span>
+                            <span className="font-mono text-white text-right">
+                                {metadata.audioStreams.length === 0 ? 'None' : metadata.audioStreams.map(stream => (
+                                    <span key={stream.index} className="block">
+                                        {stream.codec} · {stream.channelLayout} · {(stream.sampleRate / 1000).toFixed(1)} kHz{stream.language ? ` · ${stream.language}` : ''}
+                                    </span>
+                                ))}
+                            </span>
+                        </div>
+                        {metadata.subtitleStreams.length > 0 && (
+                            <div className="flex justify-between items-center text-gray-300">
+                                <span className="font-semibold">Subtitles:</span>
+                                <span className="font-mono text-white">{metadata.subtitleStreams.map(stream => stream.language ?? stream.codec).join(', ')}</span>
+                            </div>
+                        )}
                     </>
                 )}
             </div>
@@ -334,58 +1258,148 @@ const App: React.FC = () => {
                 <TrashIcon className="w-4 h-4" /> Remove Video
             </button>
         </div>
+        {renderSettingsPanel(
+            <button onClick={handleCompress} disabled={isFilmstripLoading || isAnalyzing || !!trimRange?.error || isTargetTooSmall || (settings.extractAudio && metadata?.audioStreams.length === 0)} className="w-full px-10 py-4 text-xl font-semibold text-white bg-blue-600 rounded-xl shadow-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-all transform hover:scale-105 disabled:opacity-50 disabled:hover:scale-100">
+                {settings.convertToGif ? `Convert to ${ANIMATION_FORMATS[settings.animationFormat].label}` : settings.extractAudio ? 'Extract Audio' : settings.splitForStatus ? 'Compress & Split' : 'Compress Video'}
+            </button>
+        )}
+    </div>
+  );
+
+  const renderSettingsPanel = (action: React.ReactNode) => (
         <div className="space-y-6 bg-white/5 p-6 rounded-lg">
             <h3 className="text-xl font-semibold text-white">Compression Settings</h3>
-             <div>
-                <label className="block text-sm font-medium text-gray-200 mb-2">Presets</label>
-                <div className="grid grid-cols-3 gap-2">
-                    <button onClick={() => applyPreset('quality')} className="text-xs py-2 bg-blue-500/20 text-blue-200 rounded-md hover:bg-blue-500/40 transition-colors">Best Quality</button>
-                    <button onClick={() => applyPreset('balanced')} className="text-xs py-2 bg-blue-500/20 text-blue-200 rounded-md hover:bg-blue-500/40 transition-colors">Balanced</button>
-                    <button onClick={() => applyPreset('size')} className="text-xs py-2 bg-blue-500/20 text-blue-200 rounded-md hover:bg-blue-500/40 transition-colors">Smallest Size</button>
-                </div>
-            </div>
+             <PresetPanel presets={presets} defaultPresetId={defaultPresetId} settings={settings}
+                onApply={(preset: Preset) => applySettings(preset.settings)} onPresetsChange={setPresets} onDefaultChange={setDefaultPresetId}
+                onExport={() => downloadBlob(exportPresetFile(presets), 'vidwa-presets.json')} />
              <div className="flex items-center">
                 <input id="convertToGif" type="checkbox" checked={settings.convertToGif} 
                     // FIX: Cast event.target to any to access 'checked' property due to incomplete DOM typings.
-                    onChange={(e) => setSettings({...settings, convertToGif: (e.target as any).checked})} 
+                    onChange={(e) => setSettings({...settings, convertToGif: (e.target as any).checked, extractAudio: false})} 
                     className="h-4 w-4 text-purple-500 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
-                <label htmlFor="convertToGif" className="ml-2 block text-sm font-bold text-purple-300">Convert to GIF</label>
+                <label htmlFor="convertToGif" className="ml-2 block text-sm font-bold text-purple-300">Convert to Animated Image</label>
+            </div>
+             <div className="flex items-center">
+                <input id="extractAudio" type="checkbox" checked={settings.extractAudio} 
+                    // FIX: Cast event.target to any to access 'checked' property due to incomplete DOM typings.
+                    onChange={(e) => setSettings({...settings, extractAudio: (e.target as any).checked, convertToGif: false})} 
+                    className="h-4 w-4 text-emerald-500 bg-gray-700 border-gray-600 rounded focus:ring-emerald-500" />
+                <label htmlFor="extractAudio" className="ml-2 block text-sm font-bold text-emerald-300">Extract Audio Only</label>
             </div>
             {settings.convertToGif ? (
+              <div className="border-t border-white/10 pt-4">
+                  <AnimationPanel settings={settings} availableFormats={availableAnimationFormats}
+                      onChange={(patch) => setSettings(s => ({ ...s, ...patch }))} />
+              </div>
+            ) : settings.extractAudio ? (
               <div className="space-y-4 border-t border-white/10 pt-4">
                   <div>
-                      <label htmlFor="gifResolution" className="block text-sm font-medium text-gray-200">Resolution (Width)</label>
-                      <select id="gifResolution" value={settings.gifResolution} 
+                      <label htmlFor="audioFormat" className="block text-sm font-medium text-gray-200">Audio Format</label>
+                      <select id="audioFormat" value={settings.audioFormat} 
                           // FIX: Cast event.target to any to access 'value' property due to incomplete DOM typings.
-                          onChange={(e) => setSettings({...settings, gifResolution: parseInt((e.target as any).value)})} 
-                          className="mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-purple-500 focus:border-purple-500">
-                          <option value="480">480px</option>
-                          <option value="360">360px</option>
-                      </select>
-                  </div>
-                   <div>
-                      <label htmlFor="gifFps" className="block text-sm font-medium text-gray-200">Frame Rate (FPS)</label>
-                      <select id="gifFps" value={settings.gifFps} 
-                          // FIX: Cast event.target to any to access 'value' property due to incomplete DOM typings.
-                          onChange={(e) => setSettings({...settings, gifFps: parseInt((e.target as any).value)})} 
-                          className="mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-purple-500 focus:border-purple-500">
-                          <option value="15">15 FPS (Recommended)</option>
-                          <option value="10">10 FPS</option>
+                          onChange={(e) => setSettings({...settings, audioFormat: (e.target as any).value as AudioFormat})} 
+                          className="mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-emerald-500 focus:border-emerald-500">
+                          {(Object.keys(AUDIO_FORMATS) as AudioFormat[]).map(format => (
+                              <option key={format} value={format}>{AUDIO_FORMATS[format].label}</option>
+                          ))}
                       </select>
                   </div>
+                  {metadata && metadata.audioStreams.length === 0 && queue.length === 0 && (
+                      <p className="text-xs text-red-300">This video has no audio track to extract.</p>
+                  )}
+                  <AudioPanel settings={settings} audioStreams={queue.length === 0 ? metadata?.audioStreams ?? [] : []}
+                      onChange={(patch) => setSettings(s => ({ ...s, ...patch }))} />
               </div>
             ) : (
               <div className="space-y-4 border-t border-white/10 pt-4">
+                  <div>
+                      <label htmlFor="outputFormat" className="block text-sm font-medium text-gray-200">Output Format</label>
+                      <select id="outputFormat" value={settings.outputFormat} 
+                          // FIX: Cast event.target to any to access 'value' property due to incomplete DOM typings.
+                          onChange={(e) => {
+                              const outputFormat = (e.target as any).value as OutputFormat;
+                              // CRF scales differ per encoder, so start from the new encoder's default.
+                              setSettings({...settings, outputFormat, crf: OUTPUT_FORMATS[outputFormat].crf.default});
+                          }} 
+                          className="mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500">
+                          {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+                              <option key={format} value={format} disabled={!availableFormats.includes(format)}>
+                                  {OUTPUT_FORMATS[format].label}
+                                  {format === 'av1' ? ' (slow)' : ''}
+                                  {!availableFormats.includes(format) ? ' (not supported)' : ''}
+                              </option>
+                          ))}
+                      </select>
+                      {OUTPUT_FORMATS[settings.outputFormat].extension === 'webm' && (
+                          <p className="text-xs text-gray-400 mt-1">WebM suits the web and archiving; WhatsApp expects MP4.</p>
+                      )}
+                  </div>
+                  <div>
+                      <label className="block text-sm font-medium text-gray-200 mb-2">Rate Control</label>
+                      <div className="grid grid-cols-3 gap-2">
+                          {([['target', 'Target Size'], ['crf', 'Quality (CRF)'], ['capped', 'Capped CRF']] as [RateControl, string][]).map(([mode, label]) => (
+                              <button key={mode} onClick={() => setSettings({...settings, rateControl: mode})}
+                                  className={`text-xs py-2 rounded-md transition-colors ${settings.rateControl === mode ? 'bg-blue-500 text-white' : 'bg-blue-500/20 text-blue-200 hover:bg-blue-500/40'}`}>
+                                  {label}
+                              </button>
+                          ))}
+                      </div>
+                      <p className="text-xs text-gray-400 mt-1">
+                          {settings.rateControl === 'target' && 'Spends exactly the chosen size, whatever the content.'}
+                          {settings.rateControl === 'crf' && 'Keeps a constant quality; the file size depends on the content.'}
+                          {settings.rateControl === 'capped' && 'Constant quality, but never larger than the size ceiling.'}
+                      </p>
+                  </div>
+                  {settings.rateControl !== 'target' && (
+                      <div>
+                          <label htmlFor="crf" className="flex justify-between text-sm font-medium text-gray-200">
+                              <span>Quality (CRF)</span>
+                              <span className="font-bold text-blue-300">{settings.crf}</span>
+                          </label>
+                          <input id="crf" type="range" min={OUTPUT_FORMATS[settings.outputFormat].crf.min} max={OUTPUT_FORMATS[settings.outputFormat].crf.max} step="1" value={settings.crf} 
+                              // FIX: Cast event.target to any to access 'value' property due to incomplete DOM typings.
+                              onChange={(e) => setSettings({...settings, crf: parseInt((e.target as any).value)})} 
+                              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                          <div className="flex justify-between text-xs text-gray-400">
+                              <span>Higher quality</span>
+                              <span>Smaller file</span>
+                          </div>
+                      </div>
+                  )}
+                  {settings.rateControl !== 'crf' && (
                   <div>
                       <label htmlFor="targetSize" className="flex justify-between text-sm font-medium text-gray-200">
-                          <span>Target Size (MB)</span>
+                          <span>{settings.rateControl === 'capped' ? 'Size Ceiling (MB)' : 'Target Size (MB)'}</span>
                           <span className="font-bold text-blue-300">{settings.targetSizeMB} MB</span>
                       </label>
-                      <input id="targetSize" type="range" min="1" max={Math.max(1, Math.floor((videoFile?.size || 0) / (1024*1024)))} step="1" value={settings.targetSizeMB} 
+                      <input id="targetSize" type="range" min="1" max={Math.max(1, Math.floor(sourceSize / (1024*1024)))} step="1" value={settings.targetSizeMB} 
                           // FIX: Cast event.target to any to access 'value' property due to incomplete DOM typings.
                           onChange={(e) => setSettings({...settings, targetSizeMB: parseInt((e.target as any).value)})} 
                           className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                      {estimatedVideoBitrate !== null && queue.length === 0 && (
+                          estimatedVideoBitrate > 0 ? (
+                              <p className="text-xs text-gray-400 mt-1">
+                                  ≈ {Math.round(estimatedVideoBitrate)} kbps video over {formatDuration(clipDuration)}{settings.splitForStatus ? ' per part' : ''}
+                              </p>
+                          ) : (
+                              <p className="text-xs text-red-300 mt-1">Too small for {formatDuration(clipDuration)} of video. Increase the size or trim the clip.</p>
+                          )
+                      )}
                   </div>
+                  )}
+                  {estimatedSize !== null && settings.rateControl !== 'target' && queue.length === 0 && (
+                      <p className="text-xs text-gray-300">
+                          Estimated size: ~{formatBytes(estimatedSize)}{settings.splitForStatus ? ' per part' : ''}
+                          <span className="block text-gray-400">A rough guess; busy footage comes out larger.</span>
+                      </p>
+                  )}
+                  {settings.rateControl !== 'crf' && queue.length === 0 && metadata && !trimRange?.error && (
+                      <SizeAdvisorPanel destinationId={sizeDestination} curve={complexityCurve} recommendation={sizeRecommendation}
+                          warning={sizeWarning} canAnalyze={qualityMetrics.includes('ssim')} isAnalyzing={isAnalyzing}
+                          progress={analysisProgress} error={analysisError} onDestinationChange={setSizeDestination}
+                          onAnalyze={handleAnalyzeComplexity} onCancel={handleCancel}
+                          onApply={(recommendation: SizeRecommendation) => applySettings({ resolution: recommendation.resolution, targetSizeMB: recommendation.targetSizeMB })} />
+                  )}
                   <div>
                       <label htmlFor="resolution" className="block text-sm font-medium text-gray-200">Resolution</label>
                       <select id="resolution" value={settings.resolution} 
@@ -396,6 +1410,44 @@ const App: React.FC = () => {
                           <option value="720">720p (HD)</option>
                           <option value="480">480p (SD)</option>
                       </select>
+                      {settings.aspectRatio === 'original' && (
+                          <p className="text-xs text-gray-400 mt-1">Sets the short side, so portrait clips are sized like landscape ones.</p>
+                      )}
+                  </div>
+                  <div>
+                      <label htmlFor="aspectRatio" className="block text-sm font-medium text-gray-200">Reframe</label>
+                      <select id="aspectRatio" value={settings.aspectRatio} 
+                          // FIX: Cast event.target to any to access 'value' property due to incomplete DOM typings.
+                          onChange={(e) => setSettings({...settings, aspectRatio: (e.target as any).value as AspectRatio, cropOffset: 0.5})} 
+                          className="mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500">
+                          <option value="original">Original aspect ratio</option>
+                          <option value="9:16">9:16 Vertical (Status)</option>
+                          <option value="1:1">1:1 Square</option>
+                          <option value="4:5">4:5 Portrait</option>
+                      </select>
+                      {settings.aspectRatio !== 'original' && (
+                          <>
+                              <div className="grid grid-cols-3 gap-2 mt-2">
+                                  {([['crop', 'Crop'], ['blur', 'Blur Fill'], ['color', 'Color Fill']] as [ReframeMode, string][]).map(([mode, label]) => (
+                                      <button key={mode} onClick={() => setSettings({...settings, reframeMode: mode})}
+                                          className={`text-xs py-2 rounded-md transition-colors ${settings.reframeMode === mode ? 'bg-blue-500 text-white' : 'bg-blue-500/20 text-blue-200 hover:bg-blue-500/40'}`}>
+                                          {label}
+                                      </button>
+                                  ))}
+                              </div>
+                              {settings.reframeMode === 'color' && (
+                                  <label className="flex items-center justify-between mt-2 text-sm text-gray-200">
+                                      Background Color
+                                      {/* FIX: Cast event.target to any to access 'value' property due to incomplete DOM typings. */}
+                                      <input type="color" value={settings.padColor} onChange={(e) => setSettings({...settings, padColor: (e.target as any).value})} className="h-8 w-12 bg-transparent rounded cursor-pointer" />
+                                  </label>
+                              )}
+                              <p className="text-xs text-gray-400 mt-1">
+                                  {settings.reframeMode === 'crop' ? 'Drag the frame on the preview to choose what stays in view. ' : ''}
+                                  Resolution sets the output width.
+                              </p>
+                          </>
+                      )}
                   </div>
                   <div className="flex items-center">
                       <input id="removeAudio" type="checkbox" checked={settings.removeAudio} 
@@ -404,7 +1456,68 @@ const App: React.FC = () => {
                           className="h-4 w-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500" />
                       <label htmlFor="removeAudio" className="ml-2 block text-sm text-gray-200">Remove Audio</label>
                   </div>
+                  {!settings.removeAudio && (
+                      <AudioPanel settings={settings} audioStreams={queue.length === 0 ? metadata?.audioStreams ?? [] : []}
+                          onChange={(patch) => setSettings(s => ({ ...s, ...patch }))} />
+                  )}
+                  {settings.rateControl === 'target' && (
+                  <div className="flex items-start">
+                      <input id="twoPass" type="checkbox" checked={settings.twoPass} 
+                          // FIX: Cast event.target to any to access 'checked' property due to incomplete DOM typings.
+                          onChange={(e) => setSettings({...settings, twoPass: (e.target as any).checked})} 
+                          className="h-4 w-4 mt-0.5 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500" />
+                      <label htmlFor="twoPass" className="ml-2 block text-sm text-gray-200">
+                          Two-Pass Encoding
+                          <span className="block text-xs text-gray-400">Hits the target size more accurately, but takes about twice as long.</span>
+                      </label>
+                  </div>
+                  )}
+                  <div className="flex items-start">
+                      <input id="splitForStatus" type="checkbox" checked={settings.splitForStatus} disabled={queue.length > 0}
+                          // FIX: Cast event.target to any to access 'checked' property due to incomplete DOM typings.
+                          onChange={(e) => setSettings({...settings, splitForStatus: (e.target as any).checked})} 
+                          className="h-4 w-4 mt-0.5 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 disabled:opacity-50" />
+                      <label htmlFor="splitForStatus" className="ml-2 block text-sm text-gray-200">
+                          Split for Status
+                          <span className="block text-xs text-gray-400">
+                              {queue.length > 0
+                                  ? 'Not available for batch processing.'
+                                  : 'Cuts the video into consecutive parts; the target size applies to each part.'}
+                          </span>
+                      </label>
+                  </div>
+                  {settings.splitForStatus && queue.length === 0 && (
+                      <div>
+                          <label htmlFor="segmentLength" className="block text-sm font-medium text-gray-200">Part Length</label>
+                          <select id="segmentLength" value={settings.segmentLength} 
+                              // FIX: Cast event.target to any to access 'value' property due to incomplete DOM typings.
+                              onChange={(e) => setSettings({...settings, segmentLength: parseInt((e.target as any).value)})} 
+                              className="mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500">
+                              <option value="60">60 seconds (WhatsApp Status)</option>
+                              <option value="30">30 seconds</option>
+                          </select>
+                      </div>
+                  )}
               </div>
+            )}
+            {!settings.extractAudio && (
+                <div className="border-t border-white/10 pt-4">
+                    <OrientationPanel settings={settings} sourceRotation={queue.length === 0 ? metadata?.rotation ?? 0 : 0}
+                        onChange={(patch) => setSettings(s => ({ ...s, ...patch }))} />
+                </div>
+            )}
+            {!settings.extractAudio && (
+                <div className="border-t border-white/10 pt-4">
+                    <WatermarkPanel settings={settings} image={overlayImage} onImageChange={setOverlayImage}
+                        onChange={(patch) => setSettings(s => ({ ...s, ...patch }))} />
+                </div>
+            )}
+            {!settings.extractAudio && !settings.convertToGif && queue.length === 0 && trimRange && (
+                <div className="border-t border-white/10 pt-4">
+                    <SubtitlePanel settings={settings} cues={subtitleFile?.cues ?? []} fileName={subtitleFile?.name ?? null}
+                        error={subtitleError} clipStart={trimRange.start} clipEnd={trimRange.end}
+                        onFileChange={handleSubtitleFile} onChange={(patch) => setSettings(s => ({ ...s, ...patch }))} />
+                </div>
             )}
              <div className="space-y-4 border-t border-white/10 pt-4">
                 <label className="block text-sm font-medium text-gray-200">Trim Video (Optional)</label>
@@ -414,19 +1527,67 @@ const App: React.FC = () => {
                     {/* FIX: Cast event.target to any to access 'value' property due to incomplete DOM typings. */}
                     <input type="text" placeholder={`End: ${metadata ? formatDuration(metadata.duration) : '00:00:00'}`} value={settings.endTime} onChange={(e) => setSettings({...settings, endTime: (e.target as any).value})} className="bg-gray-700 text-white rounded-md text-sm p-2 focus:ring-blue-500 focus:border-blue-500" />
                 </div>
+                {trimRange?.error && <p className="text-xs text-red-300">{trimRange.error}</p>}
             </div>
-            <button onClick={handleCompress} className="w-full px-10 py-4 text-xl font-semibold text-white bg-blue-600 rounded-xl shadow-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-all transform hover:scale-105">
-                {settings.convertToGif ? 'Convert to GIF' : 'Compress Video'}
-            </button>
+            {action}
         </div>
-    </div>
   );
+
+  const renderQueue = () => {
+    const pendingCount = queue.filter(job => job.status === JobStatus.QUEUED && job.metadata).length;
+    const isProbing = queue.some(job => job.status === JobStatus.QUEUED && !job.metadata);
+    const finishedCount = queue.filter(job => job.result).length;
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <h3 className="text-xl font-semibold text-white">Queue ({queue.length})</h3>
+                <label htmlFor="file-upload-more" className={`text-sm px-3 py-1 rounded-md bg-white/10 text-gray-200 transition-colors ${isBatchRunning ? 'opacity-50' : 'cursor-pointer hover:bg-white/20'}`}>
+                    Add Videos
+                </label>
+                <input id="file-upload-more" type="file" className="sr-only" onChange={handleFileChange} accept="video/*" multiple disabled={isBatchRunning} />
+            </div>
+            {error && <p className="text-sm text-red-300">{error}</p>}
+            {renderMemoryWarning()}
+            <BatchQueue
+                jobs={queue}
+                settings={settings}
+                isRunning={isBatchRunning}
+                onRemove={(id) => setQueue(q => q.filter(job => job.id !== id))}
+                onOverridesChange={(id, overrides: JobOverrides) => updateJob(id, { overrides })}
+                onDownload={(job) => job.result && job.resultName && downloadBlob(job.result, job.resultName)}
+            />
+            <div className="grid grid-cols-2 gap-2">
+                <button onClick={handleDownloadAll} disabled={finishedCount === 0 || isZipping} className="flex items-center justify-center gap-2 py-2 text-sm text-green-200 bg-green-500/10 hover:bg-green-500/20 rounded-lg transition-colors disabled:opacity-50">
+                    {isZipping ? <SpinnerIcon className="w-4 h-4 animate-spin" /> : <DownloadIcon className="w-4 h-4" />} Download All (ZIP)
+                </button>
+                <button onClick={handleClearQueue} disabled={isBatchRunning} className="flex items-center justify-center gap-2 py-2 text-sm text-red-300 bg-red-500/10 hover:bg-red-500/20 rounded-lg transition-colors disabled:opacity-50">
+                    <TrashIcon className="w-4 h-4" /> Clear Queue
+                </button>
+            </div>
+        </div>
+        {renderSettingsPanel(
+            <div className="space-y-2">
+                <button onClick={handleCompressAll} disabled={isBatchRunning || isProbing || pendingCount === 0} className="w-full flex items-center justify-center gap-3 px-10 py-4 text-xl font-semibold text-white bg-blue-600 rounded-xl shadow-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-all disabled:opacity-50">
+                    {isBatchRunning && <SpinnerIcon className="w-6 h-6 animate-spin" />}
+                    {isBatchRunning ? 'Processing Queue...' : `Process ${pendingCount} Video${pendingCount === 1 ? '' : 's'}`}
+                </button>
+                {isBatchRunning && (
+                    <button onClick={handleCancel} className="w-full py-2 font-semibold text-red-200 bg-red-500/20 rounded-lg hover:bg-red-500/30 transition-colors">
+                        Cancel
+                    </button>
+                )}
+            </div>
+        )}
+      </div>
+    );
+  };
   
   const renderProcessingState = () => (
     <div className="text-center py-12">
         <SpinnerIcon className="w-12 h-12 mx-auto animate-spin mb-6 text-white" />
         <p className="text-2xl font-semibold text-white">
-          {settings.convertToGif ? 'Converting to GIF...' : 'Compressing video...'}
+          {settings.convertToGif ? `Converting to ${ANIMATION_FORMATS[settings.animationFormat].label}...` : settings.extractAudio ? 'Extracting audio...' : 'Compressing video...'}
         </p>
         <p className="text-sm text-gray-300 mt-1">{progressMessage}</p>
         <div className="w-full bg-white/10 rounded-full mt-6 h-4 overflow-hidden">
@@ -436,27 +1597,49 @@ const App: React.FC = () => {
             <p className="text-md font-mono text-gray-300">{eta}</p>
             <p className="text-xl font-mono text-white">{progress}%</p>
         </div>
+        <button onClick={handleCancel} className="mt-8 px-6 py-2 font-semibold text-red-200 bg-red-500/20 rounded-lg hover:bg-red-500/30 transition-colors">
+            Cancel
+        </button>
     </div>
   );
 
+  const isVideoResult = !!compressedVideoBlob && compressedVideoBlob.type.startsWith('video/');
+
   const renderDoneState = () => (
     <div className="space-y-8">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-            <div>
-                <h3 className="text-xl font-semibold text-white mb-3">Original Video</h3>
-                <video src={videoFile ? URL.createObjectURL(videoFile) : ''} controls className="w-full rounded-lg shadow-lg bg-black"></video>
-                <p className="text-md text-gray-300 mt-3">Size: <span className="font-medium text-white">{videoFile ? formatBytes(videoFile.size) : 'N/A'}</span></p>
-            </div>
-            <div>
-                <h3 className="text-xl font-semibold text-white mb-3">Compressed {settings.convertToGif ? 'GIF' : 'Video'}</h3>
-                {settings.convertToGif ? (
-                    <img src={compressedVideoBlob ? URL.createObjectURL(compressedVideoBlob) : ''} className="w-full rounded-lg shadow-lg bg-black" alt="Compressed output" />
-                ) : (
-                    <video src={compressedVideoBlob ? URL.createObjectURL(compressedVideoBlob) : ''} controls className="w-full rounded-lg shadow-lg bg-black"></video>
+        {isVideoResult && videoUrl && resultUrl ? (
+            <>
+                <ComparisonView originalUrl={videoUrl} compressedUrl={resultUrl} clipStart={trimRange?.start ?? 0}
+                    sameFraming={settings.aspectRatio === 'original' && !isReoriented} />
+                <div className="flex justify-between text-md text-gray-300">
+                    <p>Original: <span className="font-medium text-white">{videoFile ? formatBytes(videoFile.size) : 'N/A'}</span></p>
+                    <p>Compressed: <span className="font-medium text-white">{formatBytes(compressedVideoBlob!.size)}</span></p>
+                </div>
+                <QualityPanel report={qualityReport} metrics={qualityMetrics} isMeasuring={isMeasuring} progress={qualityProgress}
+                    error={qualityError} onMeasure={handleMeasureQuality} onCancel={handleCancel} />
+            </>
+        ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <div>
+                    <h3 className="text-xl font-semibold text-white mb-3">Original Video</h3>
+                    <video src={videoUrl ?? ''} controls className="w-full rounded-lg shadow-lg bg-black"></video>
+                    <p className="text-md text-gray-300 mt-3">Size: <span className="font-medium text-white">{videoFile ? formatBytes(videoFile.size) : 'N/A'}</span></p>
+                </div>
+                <div>
+                    <h3 className="text-xl font-semibold text-white mb-3">
+                        {compressedVideoBlob?.type.startsWith('audio/') ? 'Extracted Audio' : compressedVideoBlob?.type.startsWith('image/') ? 'Animated Image' : 'Compressed Video'}
+                    </h3>
+                    {compressedVideoBlob?.type.startsWith('image/') ? (
+                        <img src={resultUrl ?? ''} className="w-full rounded-lg shadow-lg bg-black" alt="Compressed output" />
+                    ) : compressedVideoBlob?.type.startsWith('audio/') ? (
+                        <audio src={resultUrl ?? ''} controls className="w-full"></audio>
+                    ) : (
+                        <video src={resultUrl ?? ''} controls className="w-full rounded-lg shadow-lg bg-black"></video>
                 )}
                 <p className="text-md text-gray-300 mt-3">Size: <span className="font-medium text-white">{compressedVideoBlob ? formatBytes(compressedVideoBlob.size) : 'N/A'}</span></p>
             </div>
         </div>
+        )}
         {videoFile && compressedVideoBlob && (
             <div className="text-center bg-green-500/20 p-4 rounded-xl border border-green-500/30">
                 <p className="text-lg text-green-200 font-semibold">
@@ -473,6 +1656,51 @@ const App: React.FC = () => {
                 {copyStatus === 'copied' ? <CheckIcon className="w-6 h-6 mr-3" /> : <CopyIcon className="w-6 h-6 mr-3" />}
                 {copyStatus === 'copied' ? 'Copied!' : 'Copy to Clipboard'}
             </button>
+            {resultFile && canShareFile(resultFile) && (
+                <button onClick={handleShare} className="flex items-center justify-center px-6 py-3 text-lg font-semibold text-white bg-teal-600 rounded-xl shadow-lg hover:bg-teal-700 transition-all transform hover:scale-105">
+                    <ShareIcon className="w-6 h-6 mr-3" /> Share
+                </button>
+            )}
+            <button onClick={handleReset} className="px-6 py-3 text-lg font-semibold text-gray-200 bg-white/10 rounded-xl shadow-lg hover:bg-white/20 transition-all transform hover:scale-105">
+                Process Another
+            </button>
+        </div>
+    </div>
+  );
+
+  const renderSegmentsDoneState = () => (
+    <div className="space-y-6">
+        <div className="flex justify-between items-center flex-wrap gap-4">
+            <h3 className="text-xl font-semibold text-white">{segmentBlobs.length} Status Parts</h3>
+            <p className="text-md text-gray-300">
+                Total: <span className="font-medium text-white">{formatBytes(segmentBlobs.reduce((total, blob) => total + blob.size, 0))}</span>
+                {videoFile && <> (original {formatBytes(videoFile.size)})</>}
+            </p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+            {segmentBlobs.map((blob, i) => (
+                <div key={i} className="bg-white/5 p-3 rounded-lg space-y-2">
+                    <video src={segmentUrls[i]} controls className="w-full rounded-md bg-black"></video>
+                    <div className="flex justify-between items-center text-sm">
+                        <span className="font-mono text-white">part-{String(i + 1).padStart(2, '0')}</span>
+                        <span className="font-mono text-gray-300">{formatBytes(blob.size)}</span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button onClick={() => videoFile && downloadBlob(blob, getSegmentFileName(videoFile, i, blob))} className="flex items-center justify-center gap-1 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors">
+                            <DownloadIcon className="w-4 h-4" /> Download
+                        </button>
+                        <button onClick={() => handleCopySegment(i)} className="flex items-center justify-center gap-1 py-2 text-sm text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+                            {copiedSegment === i ? <CheckIcon className="w-4 h-4" /> : <CopyIcon className="w-4 h-4" />}
+                            {copiedSegment === i ? 'Copied!' : 'Copy'}
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+        <div className="flex justify-center items-center flex-wrap gap-4 pt-4">
+            <button onClick={handleDownloadSegmentsZip} disabled={isZipping} className="flex items-center justify-center px-6 py-3 text-lg font-semibold text-white bg-green-600 rounded-xl shadow-lg hover:bg-green-700 transition-all transform hover:scale-105 disabled:opacity-50">
+                {isZipping ? <SpinnerIcon className="w-6 h-6 mr-3 animate-spin" /> : <DownloadIcon className="w-6 h-6 mr-3" />} Download All (ZIP)
+            </button>
             <button onClick={handleReset} className="px-6 py-3 text-lg font-semibold text-gray-200 bg-white/10 rounded-xl shadow-lg hover:bg-white/20 transition-all transform hover:scale-105">
                 Process Another
             </button>
@@ -497,12 +1725,25 @@ const App: React.FC = () => {
         <div className="text-center py-12">
             <SpinnerIcon className="w-12 h-12 mx-auto animate-spin text-white" />
             <p className="mt-6 text-lg text-gray-300">Loading FFmpeg core...</p>
-            <p className="text-sm text-gray-400">This may take a moment on first visit.</p>
+            {loadProgress?.total ? (
+                <div className="max-w-xs mx-auto mt-4 space-y-2">
+                    <div className="w-full bg-white/10 rounded-full h-2 overflow-hidden">
+                        <div className="bg-blue-500 h-2 rounded-full transition-all duration-300" style={{ width: `${Math.min(100, (loadProgress.loaded / loadProgress.total) * 100)}%` }}></div>
+                    </div>
+                    <p className="text-xs font-mono text-gray-400">{formatBytes(loadProgress.loaded)} / {formatBytes(loadProgress.total)}</p>
+                </div>
+            ) : (
+                <p className="text-sm text-gray-400">{loadProgress ? `${formatBytes(loadProgress.loaded)} loaded` : 'This may take a moment on first visit.'}</p>
+            )}
+            {loadProgress && !loadProgress.fromCache && (
+                <p className="text-xs text-gray-500 mt-2">Later visits load it from the browser cache.</p>
+            )}
         </div>
       );
     }
+    if (queue.length > 0) return renderQueue();
     if (appState === AppState.PROCESSING) return renderProcessingState();
-    if (appState === AppState.DONE) return renderDoneState();
+    if (appState === AppState.DONE) return segmentBlobs.length > 0 ? renderSegmentsDoneState() : renderDoneState();
     if (!videoFile) return renderInitial();
     return renderDashboard();
   }
@@ -517,6 +1758,18 @@ const App: React.FC = () => {
                         <h1 className="text-4xl md:text-5xl font-extrabold text-white tracking-tight">VidWA Compressor</h1>
                     </div>
                     <p className="mt-4 text-lg md:text-xl text-gray-300">Compress HD videos for your WhatsApp Status without losing quality.</p>
+                    {appState !== AppState.IDLE && appState !== AppState.ERROR && (
+                        <p className="mt-3 inline-block text-xs font-mono px-3 py-1 rounded-full bg-white/5 text-gray-400"
+                            title={coreInfo.mode === 'multi-thread' ? 'Encoding is spread across several CPU threads.' : 'This browser or host does not allow cross-origin isolation, so FFmpeg runs on one thread.'}>
+                            {coreInfo.mode === 'multi-thread' ? `⚡ Multi-threaded FFmpeg · ${coreInfo.threads} threads` : 'Single-threaded FFmpeg'}
+                        </p>
+                    )}
+                    {/* Jobs run one after another, so say what a waiting job is waiting for. */}
+                    {ffmpegJobs.length > 1 && (
+                        <p className="mt-2 text-xs text-gray-400">
+                            {ffmpegJobs.find(job => job.status === 'running')?.label ?? 'Starting FFmpeg'} · {ffmpegJobs.filter(job => job.status === 'queued').length} waiting
+                        </p>
+                    )}
                 </header>
                 <main className="mt-8">
                     {getContent()}
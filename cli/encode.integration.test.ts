@@ -0,0 +1,158 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  AnimationSettings,
+  runAnimationEncode,
+  runVideoEncode,
+  trimInputArgs,
+  VideoEncodeSettings,
+} from '../services/encodePipeline';
+import { parseProbeOutput } from '../services/probeParser';
+import { createNodeRunner, probe } from './ffmpeg';
+
+// Encodes generated test patterns with the local ffmpeg, the same one the
+// CLI would use. Skipped when there is none.
+const FFMPEG = process.env.VIDWA_FFMPEG ?? 'ffmpeg';
+const hasFfmpeg = spawnSync(FFMPEG, ['-version'], { stdio: 'ignore' }).status === 0;
+
+const SOURCE_SECONDS = 6;
+// Container overhead and AAC priming make durations a little inexact.
+const DURATION_TOLERANCE = 0.15; // seconds
+const SIZE_TOLERANCE = 1.02; // as in the pipeline's own correction
+const ENCODE_TIMEOUT = 120_000;
+
+const videoSettings = (overrides: Partial<VideoEncodeSettings> = {}): VideoEncodeSettings => ({
+  outputFormat: 'h264',
+  rateControl: 'target',
+  crf: 23,
+  resolution: 360,
+  removeAudio: false,
+  targetSizeMB: 1,
+  twoPass: false,
+  aspectRatio: 'original',
+  reframeMode: 'crop',
+  padColor: '#000000',
+  cropOffset: 0.5,
+  rotate: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  audioStreamIndex: null,
+  audioBitrate: 64,
+  audioChannels: 'stereo',
+  normalizeLoudness: false,
+  fadeAudio: false,
+  ...overrides,
+});
+
+const gifSettings = (overrides: Partial<AnimationSettings> = {}): AnimationSettings => ({
+  format: 'gif',
+  resolution: 240,
+  fps: 10,
+  startTime: '0',
+  endTime: '2',
+  loop: 0,
+  pingPong: false,
+  speed: 1,
+  webpQuality: 75,
+  webpLossless: false,
+  targetSizeMB: null,
+  rotate: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  ...overrides,
+});
+
+describe.skipIf(!hasFfmpeg)('encoding with a local ffmpeg', () => {
+  let dir: string;
+  let landscape: string;
+  let portrait: string;
+
+  const generate = async (output: string, size: string) => {
+    await createNodeRunner(FFMPEG, SOURCE_SECONDS).exec([
+      '-y',
+      '-f', 'lavfi', '-i', `testsrc=size=${size}:rate=25:duration=${SOURCE_SECONDS}`,
+      '-f', 'lavfi', '-i', `sine=frequency=440:duration=${SOURCE_SECONDS}`,
+      '-c:v', 'libx264', '-preset', 'ultrafast', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-shortest',
+      output,
+    ], () => {});
+  };
+
+  const compress = async (input: string, output: string, settings: VideoEncodeSettings, start = 0, duration = SOURCE_SECONDS) => {
+    await runVideoEncode(createNodeRunner(FFMPEG, duration), {
+      inputArgs: trimInputArgs(input, start, duration < SOURCE_SECONDS ? duration : null),
+      output,
+      clipStart: start,
+      duration,
+      settings,
+      fades: { fadeIn: false, fadeOut: false },
+      overlay: null,
+      subtitles: null,
+      threads: null,
+      passLogPrefix: path.join(dir, 'ffmpeg2pass'),
+    }, () => {});
+    return probe(FFMPEG, output);
+  };
+
+  // GIF has no container duration, so it is measured by decoding every frame.
+  const decodedDuration = async (file: string) => {
+    let seconds = 0;
+    await createNodeRunner(FFMPEG, 1).exec(['-i', file, '-f', 'null', '-'], (ratio) => {
+      seconds = ratio;
+    });
+    return seconds;
+  };
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'vidwa-it-'));
+    landscape = path.join(dir, 'landscape.mp4');
+    portrait = path.join(dir, 'portrait.mp4');
+    await generate(landscape, '1280x720');
+    await generate(portrait, '720x1280');
+  }, ENCODE_TIMEOUT);
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('hits the target size at the requested resolution', async () => {
+    const output = path.join(dir, 'target.mp4');
+    const info = await compress(landscape, output, videoSettings());
+    expect(info.width).toBe(640);
+    expect(info.height).toBe(360);
+    expect(Math.abs(info.duration - SOURCE_SECONDS)).toBeLessThanOrEqual(DURATION_TOLERANCE);
+    expect((await stat(output)).size).toBeLessThanOrEqual(1024 * 1024 * SIZE_TOLERANCE);
+  }, ENCODE_TIMEOUT);
+
+  it('scales the short side of a portrait clip', async () => {
+    const info = await compress(portrait, path.join(dir, 'portrait-out.mp4'), videoSettings());
+    expect(info.width).toBe(360);
+    expect(info.height).toBe(640);
+  }, ENCODE_TIMEOUT);
+
+  it('turns the frame when asked to', async () => {
+    const info = await compress(landscape, path.join(dir, 'turned.mp4'), videoSettings({ rotate: 90 }));
+    expect(info.width).toBe(360);
+    expect(info.height).toBe(640);
+  }, ENCODE_TIMEOUT);
+
+  it('keeps only the trimmed range', async () => {
+    const info = await compress(landscape, path.join(dir, 'trimmed.mp4'), videoSettings({ rateControl: 'crf', twoPass: true }), 1, 3);
+    expect(Math.abs(info.duration - 3)).toBeLessThanOrEqual(DURATION_TOLERANCE);
+  }, ENCODE_TIMEOUT);
+
+  it('converts a clip to GIF', async () => {
+    const output = path.join(dir, 'clip.gif');
+    const settings = gifSettings();
+    await runAnimationEncode(createNodeRunner(FFMPEG, 2), {
+      input: landscape, palette: path.join(dir, 'palette.png'), output, settings, overlay: null,
+    }, () => {});
+    const info = parseProbeOutput(spawnSync(FFMPEG, ['-hide_banner', '-i', output], { encoding: 'utf8' }).stderr);
+    expect(info.codec).toBe('gif');
+    expect(info.width).toBe(240);
+    expect(info.height).toBe(135);
+    expect(Math.abs(await decodedDuration(output) - 2)).toBeLessThanOrEqual(DURATION_TOLERANCE);
+  }, ENCODE_TIMEOUT);
+});
@@ -0,0 +1,91 @@
+import { chmod, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createNodeRunner, probe } from './ffmpeg';
+
+// A stand-in for the ffmpeg binary. It records its arguments, then either
+// prints a probe log, reports progress and writes the output, or fails, as
+// the MOCK_FFMPEG_MODE variable says.
+const MOCK_FFMPEG = `#!${process.execPath}
+const fs = require('node:fs');
+const args = process.argv.slice(2);
+fs.writeFileSync(process.env.MOCK_FFMPEG_ARGS, JSON.stringify(args));
+const mode = process.env.MOCK_FFMPEG_MODE;
+if (mode === 'probe') {
+  process.stderr.write(fs.readFileSync(process.env.MOCK_FFMPEG_LOG, 'utf8'));
+  process.exit(1);
+}
+if (mode === 'fail') {
+  process.stderr.write('[libx264 @ 0x1] broken settings\\nConversion failed!\\n');
+  process.exit(187);
+}
+process.stderr.write('frame=1\\nout_time_us=1000000\\nprogress=continue\\nout_time_us=2000000\\nprogress=end\\n');
+fs.writeFileSync(args[args.length - 1], Buffer.alloc(4096));
+`;
+
+const PROBE_LOG = `Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'clip.mp4':
+  Duration: 00:00:04.00, start: 0.000000, bitrate: 1200 kb/s
+  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p(progressive), 1280x720 [SAR 1:1 DAR 16:9], 1000 kb/s, 25 fps, 25 tbr, 12800 tbn (default)
+  Stream #0:1[0x2](eng): Audio: aac (LC) (mp4a / 0x6134706D), 48000 Hz, stereo, fltp, 128 kb/s (default)
+At least one output file must be specified
+`;
+
+describe('local ffmpeg wrapper', () => {
+  let dir: string;
+  let ffmpegPath: string;
+  let argsFile: string;
+
+  const recordedArgs = async (): Promise<string[]> => JSON.parse(await readFile(argsFile, 'utf8'));
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'vidwa-mock-'));
+    ffmpegPath = path.join(dir, 'ffmpeg');
+    argsFile = path.join(dir, 'args.json');
+    await writeFile(ffmpegPath, MOCK_FFMPEG);
+    await chmod(ffmpegPath, 0o755);
+    await writeFile(path.join(dir, 'probe.log'), PROBE_LOG);
+    process.env.MOCK_FFMPEG_ARGS = argsFile;
+    process.env.MOCK_FFMPEG_LOG = path.join(dir, 'probe.log');
+  });
+
+  afterAll(async () => {
+    delete process.env.MOCK_FFMPEG_ARGS;
+    delete process.env.MOCK_FFMPEG_LOG;
+    delete process.env.MOCK_FFMPEG_MODE;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('probes a file from what ffmpeg -i prints', async () => {
+    process.env.MOCK_FFMPEG_MODE = 'probe';
+    const info = await probe(ffmpegPath, 'clip.mp4');
+    expect(await recordedArgs()).toEqual(['-hide_banner', '-nostdin', '-i', 'clip.mp4']);
+    expect(info).toMatchObject({ duration: 4, width: 1280, height: 720, fps: 25, codec: 'h264', bitrate: 1200 });
+    expect(info.audioStreams).toHaveLength(1);
+  });
+
+  it('asks for machine-readable progress and turns it into a ratio', async () => {
+    process.env.MOCK_FFMPEG_MODE = 'encode';
+    const output = path.join(dir, 'out.mp4');
+    const ratios: number[] = [];
+    const runner = createNodeRunner(ffmpegPath, 4);
+    await runner.exec(['-y', '-i', 'clip.mp4', output], (ratio) => ratios.push(ratio));
+    expect(await recordedArgs()).toEqual([
+      '-hide_banner', '-nostdin', '-nostats', '-progress', 'pipe:2', '-loglevel', 'error', '-y', '-i', 'clip.mp4', output,
+    ]);
+    expect(ratios).toEqual([0.25, 0.5]);
+    expect(await runner.readOutput(output)).toEqual({ byteLength: 4096 });
+  });
+
+  it('rejects with the exit code and the end of the log', async () => {
+    process.env.MOCK_FFMPEG_MODE = 'fail';
+    const runner = createNodeRunner(ffmpegPath, 4);
+    await expect(runner.exec(['-i', 'clip.mp4', 'out.mp4'], () => {})).rejects.toThrow(
+      'ffmpeg exited with code 187:\n[libx264 @ 0x1] broken settings\nConversion failed!'
+    );
+  });
+
+  it('explains a missing binary', async () => {
+    await expect(probe(path.join(dir, 'missing'), 'clip.mp4')).rejects.toThrow(/was not found/);
+  });
+});
@@ -0,0 +1,71 @@
+import { spawn } from 'node:child_process';
+import { stat } from 'node:fs/promises';
+import { EncodeRunner } from '../services/encodePipeline';
+import { parseVideoInfo, VideoInfo } from '../services/probeParser';
+
+// Lines of FFmpeg's log kept for the error message of a failed command.
+const ERROR_CONTEXT_LINES = 8;
+
+interface RunResult {
+  exitCode: number;
+  log: string[];
+}
+
+/**
+ * Runs the local ffmpeg binary and collects its log. Progress is requested
+ * on stderr as key=value lines, since stdout may carry a `-f null -` output.
+ */
+const run = (ffmpegPath: string, args: string[], onOutTime?: (seconds: number) => void): Promise<RunResult> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(ffmpegPath, ['-hide_banner', '-nostdin', ...(onOutTime ? ['-nostats', '-progress', 'pipe:2'] : []), ...args], {
+      stdio: ['ignore', 'ignore', 'pipe'],
+    });
+    const log: string[] = [];
+    let pending = '';
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      const lines = (pending + chunk).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        const outTime = line.match(/^out_time_us=(\d+)$/);
+        if (outTime) {
+          onOutTime?.(parseInt(outTime[1], 10) / 1e6);
+        } else if (!/^\w+=/.test(line)) {
+          log.push(line);
+        }
+      }
+    });
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      reject(err.code === 'ENOENT'
+        ? new Error(`ffmpeg was not found at "${ffmpegPath}". Install it or pass its path with --ffmpeg.`)
+        : err);
+    });
+    child.on('close', (code) => {
+      if (pending) log.push(pending);
+      resolve({ exitCode: code ?? 1, log });
+    });
+  });
+
+/**
+ * Reads the stream layout of a local file the same way the web app does, by
+ * parsing what `ffmpeg -i` prints.
+ */
+export const probe = async (ffmpegPath: string, file: string): Promise<VideoInfo> => {
+  const { log } = await run(ffmpegPath, ['-i', file]);
+  return parseVideoInfo(log.join('\n'));
+};
+
+/**
+ * A pipeline runner backed by the local binary. `clipDuration` is the length
+ * of the clip being encoded, which turns FFmpeg's output time into a ratio.
+ */
+export const createNodeRunner = (ffmpegPath: string, clipDuration: number): EncodeRunner<{ byteLength: number }> => ({
+  exec: async (args, onProgress) => {
+    const { exitCode, log } = await run(ffmpegPath, ['-loglevel', 'error', ...args], (seconds) => onProgress(seconds / clipDuration));
+    if (exitCode !== 0) {
+      const context = log.filter((line) => line.trim()).slice(-ERROR_CONTEXT_LINES).join('\n');
+      throw new Error(`ffmpeg exited with code ${exitCode}${context ? `:\n${context}` : '.'}`);
+    }
+  },
+  readOutput: async (filename) => ({ byteLength: (await stat(filename)).size }),
+});
@@ -0,0 +1,106 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Translates a glob into a regular expression over '/'-separated paths.
+ * Supports `*`, `?`, `**`, `[...]` classes and `{a,b}` alternatives.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directory at all.
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Lists files below `dir` as '/'-separated paths, at most `maxDepth` levels deep.
+const walk = async (dir: string, maxDepth: number, prefix = ''): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory() && maxDepth > 1) {
+      files.push(...await walk(path.join(dir, entry.name), maxDepth - 1, relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+};
+
+const expandPattern = async (pattern: string): Promise<string[]> => {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const baseSegments = segments.slice(0, firstGlob);
+  const base = baseSegments.join('/') || (pattern.startsWith('/') ? '/' : '.');
+  const rest = segments.slice(firstGlob).join('/');
+  const depth = rest.includes('**') ? Infinity : segments.length - firstGlob;
+  const matcher = globToRegExp(rest);
+
+  let candidates: string[];
+  try {
+    candidates = await walk(base, depth);
+  } catch {
+    return [];
+  }
+  return candidates
+    .filter((relative) => matcher.test(relative))
+    .map((relative) => (baseSegments.length > 0 ? path.join(base, relative) : relative));
+};
+
+/**
+ * Expands the input arguments into a sorted, de-duplicated list of files.
+ * Shells usually expand globs already; quoted patterns are expanded here so
+ * they also work on shells that do not. Throws for a pattern or path that
+ * matches nothing.
+ */
+export const expandInputs = async (patterns: string[]): Promise<string[]> => {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    if (!GLOB_CHARS.test(pattern)) {
+      const info = await stat(pattern).catch(() => null);
+      if (!info?.isFile()) {
+        throw new Error(`No such file: ${pattern}`);
+      }
+      files.add(pattern);
+      continue;
+    }
+    const matches = await expandPattern(pattern);
+    if (matches.length === 0) {
+      throw new Error(`No files match ${pattern}`);
+    }
+    matches.sort().forEach((match) => files.add(match));
+  }
+  return [...files];
+};
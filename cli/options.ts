@@ -0,0 +1,178 @@
+import {
+  AnimationSettings,
+  AspectRatio,
+  ASPECT_RATIOS,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  RateControl,
+  ReframeMode,
+  VideoEncodeSettings,
+} from '../services/encodePipeline';
+import { parseTimestamp } from '../utils/time';
+
+export const USAGE = `Usage:
+  vidwa compress <inputs...> [options]
+  vidwa gif <inputs...> [options]
+
+Inputs are files or glob patterns such as "clips/**/*.mov".
+
+Common options:
+  -o, --output <path>     Output file (one input) or directory. Defaults to
+                          compressed-<name> next to each input; inputs that
+                          share a name get a -2, -3... suffix.
+  --res <pixels>          Output short side for compress (default 720), width
+                          for gif (default 480)
+  --trim <start-end>      Range to keep, e.g. 00:10-00:40 or 1:15- (write
+                          --trim=-30 to keep the first 30 seconds)
+  --report <file>         Write a JSON report of the results ('-' for stdout)
+  --ffmpeg <path>         ffmpeg binary to use (default: $VIDWA_FFMPEG or ffmpeg)
+  -h, --help              Show this help
+
+compress options:
+  --target <size>         Target size, e.g. 8MB, 500KB (default 8MB)
+  --format <codec>        h264, hevc, vp9 or av1 (default h264)
+  --mode <mode>           target, crf or capped (default target, or crf with --crf)
+  --crf <value>           Constant quality value for crf and capped modes
+  --two-pass              Analyze first to land closer to the target size
+  --no-audio              Drop the audio track
+  --audio-bitrate <kbps>  Audio bitrate (default 128)
+  --mono                  Downmix audio to mono
+  --normalize             Normalize loudness (EBU R128)
+  --aspect <ratio>        Reframe to 9:16, 1:1 or 4:5
+  --reframe <mode>        crop, blur or color (default crop)
+  --pad-color <#rrggbb>   Background for --reframe color (default #000000)
+
+gif options:
+  --fps <fps>             Frame rate (default 15)
+`;
+
+// Shared with the web app's defaults so both produce the same files.
+const DEFAULT_TARGET_SIZE_MB = 8;
+const DEFAULT_VIDEO_RESOLUTION = 720;
+const DEFAULT_GIF_RESOLUTION = 480;
+const DEFAULT_GIF_FPS = 15;
+const DEFAULT_AUDIO_BITRATE = 128;
+
+const SIZE_UNITS: Record<string, number> = { KB: 1 / 1024, MB: 1, GB: 1024 };
+
+export interface CliValues {
+  output?: string;
+  res?: string;
+  trim?: string;
+  target?: string;
+  format?: string;
+  mode?: string;
+  crf?: string;
+  'two-pass'?: boolean;
+  'no-audio'?: boolean;
+  'audio-bitrate'?: string;
+  mono?: boolean;
+  normalize?: boolean;
+  aspect?: string;
+  reframe?: string;
+  'pad-color'?: string;
+  fps?: string;
+}
+
+const oneOf = <T extends string>(name: string, value: string, allowed: readonly T[]): T => {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`Invalid --${name} "${value}". Use one of: ${allowed.join(', ')}.`);
+  }
+  return value as T;
+};
+
+const positiveNumber = (name: string, value: string | undefined, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`Invalid --${name} "${value}". Expected a positive number.`);
+  }
+  return number;
+};
+
+/**
+ * Parses a size like "8MB", "500kb" or "1.5 GB" into megabytes. A bare
+ * number is taken as megabytes, matching the app's target size slider.
+ */
+export const parseSize = (value: string): number => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]b?)?$/i);
+  if (!match) {
+    throw new Error(`Invalid --target "${value}". Use a size like 8MB or 500KB.`);
+  }
+  const unit = (match[2] ?? 'MB').toUpperCase().replace(/^([KMG])$/, '$1B');
+  const sizeMB = parseFloat(match[1]) * SIZE_UNITS[unit];
+  if (sizeMB <= 0) {
+    throw new Error(`Invalid --target "${value}". The size must be above zero.`);
+  }
+  return sizeMB;
+};
+
+/**
+ * Splits "start-end" into the start/end strings the trim inputs take. Either
+ * side may be left empty to mean the beginning or the end of the video.
+ */
+export const parseTrim = (value: string | undefined): { startTime: string; endTime: string } => {
+  if (value === undefined) {
+    return { startTime: '', endTime: '' };
+  }
+  const parts = value.split('-');
+  const [startTime, endTime] = parts.map((part) => part.trim());
+  if (parts.length !== 2 || [startTime, endTime].some((part) => part && parseTimestamp(part) === null)) {
+    throw new Error(`Invalid --trim "${value}". Use start-end, e.g. 00:10-00:40 or 1:15-.`);
+  }
+  return { startTime, endTime };
+};
+
+export const parseVideoSettings = (values: CliValues): VideoEncodeSettings => {
+  const outputFormat = oneOf<OutputFormat>('format', values.format ?? 'h264', Object.keys(OUTPUT_FORMATS) as OutputFormat[]);
+  const format = OUTPUT_FORMATS[outputFormat];
+  const rateControl = oneOf<RateControl>('mode', values.mode ?? (values.crf !== undefined ? 'crf' : 'target'), ['target', 'crf', 'capped']);
+  const crf = positiveNumber('crf', values.crf, format.crf.default);
+  if (crf < format.crf.min || crf > format.crf.max) {
+    throw new Error(`--crf for ${format.label} must be between ${format.crf.min} and ${format.crf.max}.`);
+  }
+  const ratios = ['original', ...Object.keys(ASPECT_RATIOS)] as AspectRatio[];
+  const padColor = values['pad-color'] ?? '#000000';
+  if (!/^#[0-9a-f]{6}$/i.test(padColor)) {
+    throw new Error(`Invalid --pad-color "${padColor}". Use a hex color like #000000.`);
+  }
+
+  return {
+    outputFormat,
+    rateControl,
+    crf: Math.round(crf),
+    resolution: Math.round(positiveNumber('res', values.res, DEFAULT_VIDEO_RESOLUTION)),
+    removeAudio: values['no-audio'] ?? false,
+    targetSizeMB: values.target !== undefined ? parseSize(values.target) : DEFAULT_TARGET_SIZE_MB,
+    twoPass: values['two-pass'] ?? false,
+    aspectRatio: oneOf<AspectRatio>('aspect', values.aspect ?? 'original', ratios),
+    reframeMode: oneOf<ReframeMode>('reframe', values.reframe ?? 'crop', ['crop', 'blur', 'color']),
+    padColor,
+    cropOffset: 0.5,
+    // FFmpeg already honors the source's rotation; manual turns are a web app control.
+    rotate: 0,
+    flipHorizontal: false,
+    flipVertical: false,
+    audioStreamIndex: null,
+    audioBitrate: Math.round(positiveNumber('audio-bitrate', values['audio-bitrate'], DEFAULT_AUDIO_BITRATE)),
+    audioChannels: values.mono ? 'mono' : 'stereo',
+    normalizeLoudness: values.normalize ?? false,
+    fadeAudio: false,
+  };
+};
+
+export const parseGifSettings = (values: CliValues): AnimationSettings => ({
+  format: 'gif',
+  resolution: Math.round(positiveNumber('res', values.res, DEFAULT_GIF_RESOLUTION)),
+  fps: positiveNumber('fps', values.fps, DEFAULT_GIF_FPS),
+  ...parseTrim(values.trim),
+  loop: 0,
+  pingPong: false,
+  speed: 1,
+  webpQuality: 75,
+  webpLossless: false,
+  targetSizeMB: null,
+  rotate: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+});
@@ -0,0 +1,287 @@
+#!/usr/bin/env node
+import { mkdir, mkdtemp, rm, stat, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  AnimationSettings,
+  getAnimationClip,
+  getAnimationDuration,
+  getVideoBitrates,
+  OUTPUT_FORMATS,
+  ProgressCallback,
+  runAnimationEncode,
+  runVideoEncode,
+  trimInputArgs,
+  VideoEncodeSettings,
+} from '../services/encodePipeline';
+import { formatBytes } from '../utils/format';
+import { getTrimRange } from '../utils/time';
+import { createNodeRunner, probe } from './ffmpeg';
+import { expandInputs } from './glob';
+import { CliValues, parseGifSettings, parseTrim, parseVideoSettings, USAGE } from './options';
+
+type Command = 'compress' | 'gif';
+
+interface JobResult {
+  input: string;
+  output: string | null;
+  status: 'done' | 'failed' | 'skipped';
+  inputBytes: number;
+  outputBytes: number | null;
+  duration: number | null; // seconds of the encoded clip
+  elapsed: number; // seconds
+  error: string | null;
+}
+
+const COMPRESS_ONLY_OPTIONS = ['target', 'format', 'mode', 'crf', 'two-pass', 'no-audio', 'audio-bitrate', 'mono', 'normalize', 'aspect', 'reframe', 'pad-color'];
+const GIF_ONLY_OPTIONS = ['fps'];
+
+// Exit codes: 1 when any file failed, 2 for usage errors.
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Names the output like the web app does (compressed-<name>.<ext>). With a
+ * single input `-o` may name the file itself; otherwise it is a directory.
+ */
+const resolveOutput = async (input: string, output: string | undefined, extension: string, singleInput: boolean) => {
+  const fileName = `compressed-${path.parse(input).name}.${extension}`;
+  if (!output) {
+    return path.join(path.dirname(input), fileName);
+  }
+  const isDirectory = !singleInput || /[\\/]$/.test(output) || (await stat(output).catch(() => null))?.isDirectory();
+  if (isDirectory) {
+    await mkdir(output, { recursive: true });
+    return path.join(output, fileName);
+  }
+  await mkdir(path.dirname(output), { recursive: true });
+  return output;
+};
+
+/**
+ * Resolves every output before anything is encoded. Inputs that share a name
+ * (a/clip.mp4 and b/clip.mp4 with `-o dir/`, or clip.mov and clip.mp4 next to
+ * each other) would write the same file, so later ones get a numeric suffix:
+ * compressed-clip-2.mp4.
+ */
+const planOutputs = async (inputs: string[], output: string | undefined, extension: string) => {
+  const outputs = await Promise.all(inputs.map((input) => resolveOutput(input, output, extension, inputs.length === 1)));
+  const reserved = new Set(outputs.map((file) => path.resolve(file)));
+  const claimed = new Set<string>();
+  return outputs.map((file) => {
+    const { dir, name, ext } = path.parse(file);
+    let planned = file;
+    // A suffixed name must not take the plain name of a later input either.
+    for (let n = 2; claimed.has(path.resolve(planned)) || (planned !== file && reserved.has(path.resolve(planned))); n++) {
+      planned = path.join(dir, `${name}-${n}${ext}`);
+    }
+    claimed.add(path.resolve(planned));
+    return planned;
+  });
+};
+
+const compressFile = async (
+  ffmpegPath: string,
+  input: string,
+  output: string,
+  settings: VideoEncodeSettings,
+  trim: { startTime: string; endTime: string },
+  passLogPrefix: string,
+  onProgress: ProgressCallback
+): Promise<number> => {
+  const info = await probe(ffmpegPath, input);
+  const range = getTrimRange(info.duration, trim.startTime, trim.endTime);
+  if (range.error) {
+    throw new Error(`Invalid trim range. ${range.error}`);
+  }
+  if (settings.rateControl !== 'crf') {
+    getVideoBitrates(settings.targetSizeMB, range.duration, settings.removeAudio ? 0 : settings.audioBitrate);
+  }
+
+  await runVideoEncode(createNodeRunner(ffmpegPath, range.duration), {
+    inputArgs: trimInputArgs(input, range.start, range.end < info.duration ? range.duration : null),
+    output,
+    clipStart: range.start,
+    duration: range.duration,
+    settings,
+    fades: { fadeIn: false, fadeOut: false },
+    overlay: null,
+    subtitles: null,
+    threads: null,
+    passLogPrefix,
+  }, onProgress);
+  return range.duration;
+};
+
+const convertFileToGif = async (
+  ffmpegPath: string,
+  input: string,
+  output: string,
+  settings: AnimationSettings,
+  palette: string,
+  onProgress: ProgressCallback
+): Promise<number> => {
+  const info = await probe(ffmpegPath, input);
+  const clip = getAnimationClip(settings.startTime, settings.endTime);
+  const duration = clip.duration ?? Math.max(info.duration - clip.start, 0);
+  // FFmpeg reports progress on the output timeline, which speed and ping-pong stretch.
+  const runner = createNodeRunner(ffmpegPath, getAnimationDuration(duration, settings));
+  await runAnimationEncode(runner, { input, palette, output, settings, overlay: null }, onProgress);
+  return duration;
+};
+
+const parseCommandLine = (args: string[]) =>
+  parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      res: { type: 'string' },
+      trim: { type: 'string' },
+      target: { type: 'string' },
+      format: { type: 'string' },
+      mode: { type: 'string' },
+      crf: { type: 'string' },
+      'two-pass': { type: 'boolean' },
+      'no-audio': { type: 'boolean' },
+      'audio-bitrate': { type: 'string' },
+      mono: { type: 'boolean' },
+      normalize: { type: 'boolean' },
+      aspect: { type: 'string' },
+      reframe: { type: 'string' },
+      'pad-color': { type: 'string' },
+      fps: { type: 'string' },
+      report: { type: 'string' },
+      ffmpeg: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+const main = async (): Promise<number> => {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(process.argv.slice(2));
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...patterns] = positionals;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (command !== 'compress' && command !== 'gif') {
+    process.stderr.write(`${command ? `Unknown command "${command}".` : 'Missing command.'}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  let inputs: string[];
+  let videoSettings: VideoEncodeSettings | null = null;
+  let gifSettings: AnimationSettings | null = null;
+  let trim: { startTime: string; endTime: string };
+  try {
+    const misplaced = (command === 'gif' ? COMPRESS_ONLY_OPTIONS : GIF_ONLY_OPTIONS).filter((name) => name in values);
+    if (misplaced.length > 0) {
+      throw new Error(`--${misplaced[0]} does not apply to "vidwa ${command}".`);
+    }
+    if (patterns.length === 0) {
+      throw new Error('No input files given.');
+    }
+    trim = parseTrim(values.trim);
+    if (command === 'compress') {
+      videoSettings = parseVideoSettings(values as CliValues);
+    } else {
+      gifSettings = parseGifSettings(values as CliValues);
+    }
+    inputs = await expandInputs(patterns);
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : err}\n`);
+    return EXIT_USAGE;
+  }
+
+  const ffmpegPath = values.ffmpeg ?? process.env.VIDWA_FFMPEG ?? 'ffmpeg';
+  const extension = command === 'gif' ? 'gif' : OUTPUT_FORMATS[videoSettings!.outputFormat].extension;
+  let outputs: string[];
+  try {
+    outputs = await planOutputs(inputs, values.output, extension);
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : err}\n`);
+    return EXIT_FAILED;
+  }
+  // Pass logs and palettes stay out of the user's working directory.
+  const tempDir = await mkdtemp(path.join(os.tmpdir(), 'vidwa-'));
+  const showProgress = process.stderr.isTTY;
+
+  // Ctrl+C also reaches the running ffmpeg; stop after it instead of starting the next file.
+  let interrupted = false;
+  process.on('SIGINT', () => {
+    interrupted = true;
+  });
+
+  const results: JobResult[] = [];
+  try {
+    for (const [i, input] of inputs.entries()) {
+      const inputBytes = (await stat(input)).size;
+      if (interrupted) {
+        results.push({ input, output: null, status: 'skipped', inputBytes, outputBytes: null, duration: null, elapsed: 0, error: 'Interrupted' });
+        continue;
+      }
+
+      const label = `[${i + 1}/${inputs.length}] ${input}`;
+      const onProgress: ProgressCallback = ({ percentage, step }) => {
+        if (showProgress) {
+          process.stderr.write(`\r\x1b[K${label} ${percentage}%${step ? ` ${step}` : ''}`);
+        }
+      };
+      const startedAt = Date.now();
+      const output = outputs[i];
+      try {
+        if (path.resolve(output) === path.resolve(input)) {
+          throw new Error('The output would overwrite the input.');
+        }
+        const duration = command === 'gif'
+          ? await convertFileToGif(ffmpegPath, input, output, gifSettings!, path.join(tempDir, 'palette.png'), onProgress)
+          : await compressFile(ffmpegPath, input, output, videoSettings!, trim, path.join(tempDir, 'ffmpeg2pass'), onProgress);
+        const outputBytes = (await stat(output)).size;
+        const elapsed = (Date.now() - startedAt) / 1000;
+        results.push({ input, output, status: 'done', inputBytes, outputBytes, duration, elapsed, error: null });
+        process.stderr.write(`${showProgress ? '\r\x1b[K' : ''}✓ ${input} → ${output} (${formatBytes(inputBytes)} → ${formatBytes(outputBytes)})\n`);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        const elapsed = (Date.now() - startedAt) / 1000;
+        results.push({ input, output, status: 'failed', inputBytes, outputBytes: null, duration: null, elapsed, error });
+        process.stderr.write(`${showProgress ? '\r\x1b[K' : ''}✗ ${input}: ${error}\n`);
+      }
+    }
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+
+  if (values.report) {
+    const report = JSON.stringify({ command: command as Command, ffmpeg: ffmpegPath, results }, null, 2);
+    if (values.report === '-') {
+      process.stdout.write(`${report}\n`);
+    } else {
+      await writeFile(values.report, `${report}\n`);
+    }
+  }
+
+  const failed = results.filter((result) => result.status !== 'done').length;
+  if (inputs.length > 1) {
+    process.stderr.write(`${inputs.length - failed} of ${inputs.length} files done.\n`);
+  }
+  return failed > 0 ? EXIT_FAILED : 0;
+};
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    process.stderr.write(`${err instanceof Error ? err.stack ?? err.message : err}\n`);
+    process.exitCode = EXIT_FAILED;
+  }
+);
@@ -0,0 +1,128 @@
+import React from 'react';
+import { ANIMATION_FORMATS, AnimationFormat } from '../services/ffmpegService';
+import { CompressionSettings } from '../types';
+
+type AnimationPanelSettings = Pick<CompressionSettings,
+  'animationFormat' | 'gifResolution' | 'gifFps' | 'animationSpeed' | 'animationLoop' | 'animationPingPong'
+  | 'webpQuality' | 'webpLossless' | 'animationSizeLimit' | 'animationTargetSizeMB'>;
+
+interface AnimationPanelProps {
+  settings: AnimationPanelSettings;
+  availableFormats: AnimationFormat[]; // what the loaded core can write
+  onChange: (patch: Partial<AnimationPanelSettings>) => void;
+}
+
+const SPEEDS = [0.5, 1, 1.5, 2, 4];
+const LOOPS: [number, string][] = [[0, 'Forever'], [1, 'Once'], [2, '2 times'], [3, '3 times'], [5, '5 times']];
+
+const selectClassName = 'mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-purple-500 focus:border-purple-500';
+
+export const AnimationPanel: React.FC<AnimationPanelProps> = ({ settings, availableFormats, onChange }) => (
+  <div className="space-y-4">
+    <div>
+      <label className="block text-sm font-medium text-gray-200 mb-2">Format</label>
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map((format) => (
+          <button key={format} onClick={() => onChange({ animationFormat: format })} disabled={!availableFormats.includes(format)}
+            title={availableFormats.includes(format) ? undefined : 'Not supported by this FFmpeg build'}
+            className={`text-xs py-2 rounded-md transition-colors disabled:opacity-40 ${settings.animationFormat === format ? 'bg-purple-500 text-white' : 'bg-purple-500/20 text-purple-200 hover:bg-purple-500/40'}`}>
+            {ANIMATION_FORMATS[format].label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">
+        {settings.animationFormat === 'gif' && 'Plays everywhere, but limited to 256 colors and large.'}
+        {settings.animationFormat === 'webp' && 'Full color and far smaller than GIF; supported by all current browsers.'}
+        {settings.animationFormat === 'apng' && 'Lossless full color with transparency; files are big.'}
+      </p>
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <label htmlFor="gifResolution" className="block text-sm font-medium text-gray-200">Width</label>
+        <select id="gifResolution" value={settings.gifResolution}
+          onChange={(e) => onChange({ gifResolution: parseInt(e.currentTarget.value) })}
+          className={selectClassName}>
+          <option value="480">480px</option>
+          <option value="360">360px</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor="gifFps" className="block text-sm font-medium text-gray-200">Frame Rate</label>
+        <select id="gifFps" value={settings.gifFps}
+          onChange={(e) => onChange({ gifFps: parseInt(e.currentTarget.value) })}
+          className={selectClassName}>
+          <option value="15">15 FPS (Recommended)</option>
+          <option value="10">10 FPS</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor="animationSpeed" className="block text-sm font-medium text-gray-200">Speed</label>
+        <select id="animationSpeed" value={settings.animationSpeed}
+          onChange={(e) => onChange({ animationSpeed: parseFloat(e.currentTarget.value) })}
+          className={selectClassName}>
+          {SPEEDS.map((speed) => <option key={speed} value={speed}>{speed}×{speed === 1 ? ' (normal)' : ''}</option>)}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="animationLoop" className="block text-sm font-medium text-gray-200">Plays</label>
+        <select id="animationLoop" value={settings.animationLoop}
+          onChange={(e) => onChange({ animationLoop: parseInt(e.currentTarget.value) })}
+          className={selectClassName}>
+          {LOOPS.map(([loop, label]) => <option key={loop} value={loop}>{label}</option>)}
+        </select>
+      </div>
+    </div>
+    <div className="flex items-start">
+      <input id="animationPingPong" type="checkbox" checked={settings.animationPingPong}
+        onChange={(e) => onChange({ animationPingPong: e.currentTarget.checked })}
+        className="h-4 w-4 mt-0.5 text-purple-500 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+      <label htmlFor="animationPingPong" className="ml-2 block text-sm text-gray-200">
+        Boomerang
+        <span className="block text-xs text-gray-400">Plays forwards, then backwards. Doubles the length; best for short clips.</span>
+      </label>
+    </div>
+    {settings.animationFormat === 'webp' && (
+      <div className="space-y-2">
+        <div className="flex items-center">
+          <input id="webpLossless" type="checkbox" checked={settings.webpLossless}
+            onChange={(e) => onChange({ webpLossless: e.currentTarget.checked })}
+            className="h-4 w-4 text-purple-500 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+          <label htmlFor="webpLossless" className="ml-2 block text-sm text-gray-200">Lossless</label>
+        </div>
+        {!settings.webpLossless && (
+          <div>
+            <label htmlFor="webpQuality" className="flex justify-between text-sm font-medium text-gray-200">
+              <span>Quality</span>
+              <span className="font-bold text-purple-300">{settings.webpQuality}</span>
+            </label>
+            <input id="webpQuality" type="range" min="10" max="100" step="5" value={settings.webpQuality}
+              onChange={(e) => onChange({ webpQuality: parseInt(e.currentTarget.value) })}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+          </div>
+        )}
+      </div>
+    )}
+    <div className="space-y-2">
+      <div className="flex items-start">
+        <input id="animationSizeLimit" type="checkbox" checked={settings.animationSizeLimit}
+          onChange={(e) => onChange({ animationSizeLimit: e.currentTarget.checked })}
+          className="h-4 w-4 mt-0.5 text-purple-500 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+        <label htmlFor="animationSizeLimit" className="ml-2 block text-sm text-gray-200">
+          Size Limit
+          <span className="block text-xs text-gray-400">Lowers the frame rate, then the width, until the file fits. Each retry is a full encode.</span>
+        </label>
+      </div>
+      {settings.animationSizeLimit && (
+        <div className="flex items-center gap-2">
+          <input type="number" min="0.1" step="0.1" value={settings.animationTargetSizeMB} aria-label="Size limit in MB"
+            onChange={(e) => {
+              const value = parseFloat(e.currentTarget.value);
+              if (value > 0) onChange({ animationTargetSizeMB: value });
+            }}
+            className="w-24 bg-gray-700 border-gray-600 text-white text-sm rounded-md focus:ring-purple-500 focus:border-purple-500" />
+          <span className="text-sm text-gray-300">MB</span>
+        </div>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,74 @@
+import React from 'react';
+import { AUDIO_BITRATES, AudioChannels, AudioSettings, AudioStreamInfo } from '../services/ffmpegService';
+
+interface AudioPanelProps {
+  settings: AudioSettings;
+  // Streams of the selected file; empty in batch mode, where the choice is left to FFmpeg.
+  audioStreams: AudioStreamInfo[];
+  onChange: (patch: Partial<AudioSettings>) => void;
+}
+
+const describeStream = (stream: AudioStreamInfo, position: number) =>
+  [`Track ${position + 1}`, stream.language, stream.codec, stream.channelLayout].filter(Boolean).join(' · ');
+
+export const AudioPanel: React.FC<AudioPanelProps> = ({ settings, audioStreams, onChange }) => (
+  <div className="space-y-3">
+    {audioStreams.length > 1 && (
+      <div>
+        <label htmlFor="audioStream" className="block text-sm font-medium text-gray-200">Audio Track</label>
+        <select id="audioStream" value={settings.audioStreamIndex ?? ''}
+          onChange={(e) => {
+            const value = e.currentTarget.value;
+            onChange({ audioStreamIndex: value === '' ? null : parseInt(value) });
+          }}
+          className="mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500">
+          <option value="">Automatic</option>
+          {audioStreams.map((stream, i) => (
+            <option key={stream.index} value={stream.index}>
+              {describeStream(stream, i)}{stream.isDefault ? ' (default)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+    )}
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <label htmlFor="audioBitrate" className="block text-sm font-medium text-gray-200">Audio Bitrate</label>
+        <select id="audioBitrate" value={settings.audioBitrate}
+          onChange={(e) => onChange({ audioBitrate: parseInt(e.currentTarget.value) })}
+          className="mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500">
+          {AUDIO_BITRATES.map((bitrate) => (
+            <option key={bitrate} value={bitrate}>{bitrate} kbps</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="audioChannels" className="block text-sm font-medium text-gray-200">Channels</label>
+        <select id="audioChannels" value={settings.audioChannels}
+          onChange={(e) => onChange({ audioChannels: e.currentTarget.value as AudioChannels })}
+          className="mt-1 block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500">
+          <option value="stereo">Stereo</option>
+          <option value="mono">Mono</option>
+        </select>
+      </div>
+    </div>
+    <div className="flex items-start">
+      <input id="normalizeLoudness" type="checkbox" checked={settings.normalizeLoudness}
+        onChange={(e) => onChange({ normalizeLoudness: e.currentTarget.checked })}
+        className="h-4 w-4 mt-0.5 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500" />
+      <label htmlFor="normalizeLoudness" className="ml-2 block text-sm text-gray-200">
+        Normalize Loudness
+        <span className="block text-xs text-gray-400">Evens out quiet and loud recordings (EBU R128, -16 LUFS).</span>
+      </label>
+    </div>
+    <div className="flex items-start">
+      <input id="fadeAudio" type="checkbox" checked={settings.fadeAudio}
+        onChange={(e) => onChange({ fadeAudio: e.currentTarget.checked })}
+        className="h-4 w-4 mt-0.5 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500" />
+      <label htmlFor="fadeAudio" className="ml-2 block text-sm text-gray-200">
+        Fade In &amp; Out
+        <span className="block text-xs text-gray-400">Short fades at the start and end of the clip, so trimmed audio doesn't cut abruptly.</span>
+      </label>
+    </div>
+  </div>
+);
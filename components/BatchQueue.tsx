@@ -0,0 +1,137 @@
+import React from 'react';
+import { CompressionSettings, JobOverrides, JobStatus, QueueJob } from '../types';
+import { ANIMATION_FORMATS } from '../services/ffmpegService';
+import { formatBytes, formatDuration } from '../utils/format';
+import { DownloadIcon, SpinnerIcon, TrashIcon } from './icons';
+
+interface BatchQueueProps {
+  jobs: QueueJob[];
+  settings: CompressionSettings;
+  isRunning: boolean;
+  onRemove: (id: string) => void;
+  onOverridesChange: (id: string, overrides: JobOverrides) => void;
+  onDownload: (job: QueueJob) => void;
+}
+
+const statusLabel = (job: QueueJob) => {
+  if (job.status === JobStatus.ERROR) return 'Failed';
+  if (job.status === JobStatus.DONE) return 'Done';
+  if (job.status === JobStatus.PROCESSING) return `${job.progress}%`;
+  return job.metadata ? 'Queued' : 'Reading...';
+};
+
+const statusClassName: Record<JobStatus, string> = {
+  [JobStatus.QUEUED]: 'bg-white/10 text-gray-300',
+  [JobStatus.PROCESSING]: 'bg-blue-500/20 text-blue-200',
+  [JobStatus.DONE]: 'bg-green-500/20 text-green-200',
+  [JobStatus.ERROR]: 'bg-red-500/20 text-red-200',
+};
+
+const QueueItem: React.FC<{
+  job: QueueJob;
+  settings: CompressionSettings;
+  isRunning: boolean;
+  onRemove: (id: string) => void;
+  onOverridesChange: (id: string, overrides: JobOverrides) => void;
+  onDownload: (job: QueueJob) => void;
+}> = ({ job, settings, isRunning, onRemove, onOverridesChange, onDownload }) => {
+  const locked = isRunning || job.status !== JobStatus.QUEUED;
+  const maxTargetSize = Math.max(1, Math.floor(job.file.size / (1024 * 1024)));
+
+  const setOverride = <K extends keyof JobOverrides>(key: K, value: JobOverrides[K] | undefined) => {
+    const next = { ...job.overrides };
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onOverridesChange(job.id, next);
+  };
+
+  return (
+    <div className="bg-white/5 p-3 rounded-lg flex gap-4 items-start">
+      <div className="w-28 shrink-0">
+        {job.thumbnail ? (
+          <img src={job.thumbnail} alt="" className="rounded-md w-full" />
+        ) : (
+          <div className="rounded-md w-full h-16 bg-white/10 flex items-center justify-center">
+            <SpinnerIcon className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        )}
+      </div>
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex justify-between items-center gap-2">
+          <span className="truncate text-sm font-medium text-white">{job.file.name}</span>
+          <span className={`text-xs font-mono px-2 py-0.5 rounded ${statusClassName[job.status]}`}>{statusLabel(job)}</span>
+        </div>
+        <p className="text-xs font-mono text-gray-400">
+          {formatBytes(job.file.size)}
+          {job.metadata && ` · ${formatDuration(job.metadata.duration)} · ${job.metadata.width}x${job.metadata.height} · ${job.metadata.fps.toFixed(2)} FPS`}
+          {job.result && ` → ${formatBytes(job.result.size)}`}
+        </p>
+        {job.status === JobStatus.PROCESSING && (
+          <div className="w-full bg-white/10 rounded-full h-1.5 overflow-hidden">
+            <div className="bg-blue-500 h-1.5 rounded-full transition-all duration-300" style={{ width: `${job.progress}%` }}></div>
+          </div>
+        )}
+        {job.error && <p className="text-xs text-red-300">{job.error}</p>}
+        <div className="grid grid-cols-3 gap-2">
+          <select value={job.overrides.convertToGif === undefined ? '' : String(job.overrides.convertToGif)} disabled={locked}
+            onChange={(e) => {
+              const value = e.currentTarget.value;
+              setOverride('convertToGif', value === '' ? undefined : value === 'true');
+            }}
+            className="bg-gray-700 text-white rounded-md text-xs p-1 disabled:opacity-50">
+            <option value="">Shared ({settings.convertToGif ? ANIMATION_FORMATS[settings.animationFormat].label : settings.extractAudio ? 'Audio' : 'Video'})</option>
+            <option value="false">Video</option>
+            <option value="true">{ANIMATION_FORMATS[settings.animationFormat].label}</option>
+          </select>
+          <select value={job.overrides.resolution ?? ''} disabled={locked}
+            onChange={(e) => {
+              const value = e.currentTarget.value;
+              setOverride('resolution', value === '' ? undefined : parseInt(value));
+            }}
+            className="bg-gray-700 text-white rounded-md text-xs p-1 disabled:opacity-50">
+            <option value="">Shared ({settings.resolution}p)</option>
+            <option value="1080">1080p</option>
+            <option value="720">720p</option>
+            <option value="480">480p</option>
+          </select>
+          <input type="number" min="1" max={maxTargetSize} placeholder={`Shared (${settings.targetSizeMB} MB)`}
+            value={job.overrides.targetSizeMB ?? ''} disabled={locked}
+            onChange={(e) => {
+              const value = parseInt(e.currentTarget.value);
+              setOverride('targetSizeMB', isNaN(value) ? undefined : Math.min(Math.max(value, 1), maxTargetSize));
+            }}
+            className="bg-gray-700 text-white rounded-md text-xs p-1 disabled:opacity-50" />
+        </div>
+      </div>
+      <div className="flex flex-col gap-2">
+        {job.result && (
+          <button onClick={() => onDownload(job)} title="Download" className="p-2 text-green-200 bg-green-500/10 hover:bg-green-500/20 rounded-lg transition-colors">
+            <DownloadIcon className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={() => onRemove(job.id)} disabled={isRunning} title="Remove" className="p-2 text-red-300 bg-red-500/10 hover:bg-red-500/20 rounded-lg transition-colors disabled:opacity-50">
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ jobs, settings, isRunning, onRemove, onOverridesChange, onDownload }) => (
+  <div className="space-y-3">
+    {jobs.map((job) => (
+      <QueueItem
+        key={job.id}
+        job={job}
+        settings={settings}
+        isRunning={isRunning}
+        onRemove={onRemove}
+        onOverridesChange={onOverridesChange}
+        onDownload={onDownload}
+      />
+    ))}
+  </div>
+);
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatDuration } from '../utils/format';
+
+interface ComparisonViewProps {
+  originalUrl: string;
+  compressedUrl: string;
+  // Where the encoded clip starts in the original, so both show the same moment.
+  clipStart: number;
+  // False when the encode reframed, turned or mirrored the picture, so the halves of a split wouldn't line up.
+  sameFraming: boolean;
+}
+
+type ComparisonMode = 'split' | 'side';
+
+// Drift between the two players tolerated before the original is re-seeked.
+const MAX_DRIFT = 0.15; // seconds
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ originalUrl, compressedUrl, clipStart, sameFraming }) => {
+  const originalRef = useRef<HTMLVideoElement>(null);
+  const compressedRef = useRef<HTMLVideoElement>(null);
+  const [mode, setMode] = useState<ComparisonMode>(sameFraming ? 'split' : 'side');
+  const [split, setSplit] = useState(0.5);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [aspect, setAspect] = useState(16 / 9);
+
+  // The compressed clip drives playback; the original follows it.
+  const syncOriginal = (force = false) => {
+    const original = originalRef.current;
+    const compressed = compressedRef.current;
+    if (!original || !compressed) return;
+    const target = clipStart + compressed.currentTime;
+    if (force || Math.abs(original.currentTime - target) > MAX_DRIFT) {
+      original.currentTime = target;
+    }
+  };
+
+  useEffect(() => {
+    syncOriginal(true);
+  }, [clipStart]);
+
+  useEffect(() => {
+    if (!sameFraming) setMode('side');
+  }, [sameFraming]);
+
+  const handleLoadedMetadata = () => {
+    const compressed = compressedRef.current;
+    if (!compressed) return;
+    setDuration(compressed.duration);
+    if (compressed.videoWidth && compressed.videoHeight) {
+      setAspect(compressed.videoWidth / compressed.videoHeight);
+    }
+    // Switching layouts remounts the players; pick up where the previous ones were.
+    compressed.currentTime = time;
+    syncOriginal(true);
+  };
+
+  const togglePlay = async () => {
+    const original = originalRef.current;
+    const compressed = compressedRef.current;
+    if (!original || !compressed) return;
+    if (isPlaying) {
+      compressed.pause();
+      original.pause();
+      setIsPlaying(false);
+      return;
+    }
+    syncOriginal(true);
+    try {
+      await Promise.all([compressed.play(), original.play()]);
+      setIsPlaying(true);
+    } catch (err) {
+      // Blocked by the autoplay policy, or a source that can't play yet.
+      console.error('Could not play the comparison:', err);
+      compressed.pause();
+      original.pause();
+      setIsPlaying(false);
+    }
+  };
+
+  const handleSeek = (value: number) => {
+    const compressed = compressedRef.current;
+    if (!compressed) return;
+    compressed.currentTime = value;
+    setTime(value);
+    syncOriginal(true);
+  };
+
+  const handleEnded = () => {
+    originalRef.current?.pause();
+    setIsPlaying(false);
+  };
+
+  const videoProps = { playsInline: true, preload: 'auto' };
+  const original = (
+    <video ref={originalRef} src={originalUrl} muted {...videoProps}
+      className={mode === 'split' ? 'absolute inset-0 w-full h-full object-contain' : 'w-full rounded-lg bg-black'}></video>
+  );
+  const compressed = (
+    <video ref={compressedRef} src={compressedUrl} {...videoProps}
+      onLoadedMetadata={handleLoadedMetadata}
+      onTimeUpdate={() => { setTime(compressedRef.current?.currentTime ?? 0); syncOriginal(); }}
+      onSeeked={() => syncOriginal(true)}
+      onEnded={handleEnded}
+      className={mode === 'split' ? 'absolute inset-0 w-full h-full object-contain' : 'w-full rounded-lg bg-black'}
+      style={mode === 'split' ? { clipPath: `inset(0 0 0 ${split * 100}%)` } : undefined}></video>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-white">Before / After</h3>
+        <div className="flex gap-1 bg-white/5 rounded-lg p-1">
+          {([['split', 'Split'], ['side', 'Side by Side']] as [ComparisonMode, string][]).map(([value, label]) => (
+            <button key={value} onClick={() => { setMode(value); setIsPlaying(false); }}
+              disabled={value === 'split' && !sameFraming}
+              title={value === 'split' && !sameFraming ? 'The output is reframed or turned, so it is compared side by side' : undefined}
+              className={`text-xs px-3 py-1.5 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent ${mode === value ? 'bg-blue-500 text-white' : 'text-blue-200 hover:bg-blue-500/20'}`}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'split' ? (
+        <div className="relative w-full rounded-lg overflow-hidden bg-black select-none" style={{ aspectRatio: `${aspect}` }}>
+          {original}
+          {compressed}
+          <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: `${split * 100}%` }}></div>
+          <span className="absolute top-2 left-2 text-xs font-semibold text-white bg-black/60 px-2 py-0.5 rounded pointer-events-none">Original</span>
+          <span className="absolute top-2 right-2 text-xs font-semibold text-white bg-black/60 px-2 py-0.5 rounded pointer-events-none">Compressed</span>
+          <input type="range" min="0" max="1" step="0.001" value={split} aria-label="Split position"
+            onChange={(e) => setSplit(parseFloat(e.currentTarget.value))}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-gray-300 mb-1">Original</p>
+            {original}
+          </div>
+          <div>
+            <p className="text-sm text-gray-300 mb-1">Compressed</p>
+            {compressed}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button onClick={togglePlay} className="px-4 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors w-20">
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <input type="range" min="0" max={duration || 0} step="0.01" value={time} aria-label="Seek"
+          onChange={(e) => handleSeek(parseFloat(e.currentTarget.value))}
+          className="flex-1 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+        <span className="text-xs font-mono text-gray-300 w-24 text-right">{formatDuration(time)} / {formatDuration(duration)}</span>
+      </div>
+      {mode === 'split' && <p className="text-xs text-gray-400">Drag across the video to move the divider. The original is shown muted.</p>}
+    </div>
+  );
+};
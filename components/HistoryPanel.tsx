@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { CompressionSettings, HistoryEntry } from '../types';
+import { ANIMATION_FORMATS, AUDIO_FORMATS, OUTPUT_FORMATS } from '../services/ffmpegService';
+import { HISTORY_QUOTA_OPTIONS } from '../services/historyStore';
+import { formatBytes, formatDuration } from '../utils/format';
+import { CheckIcon, CopyIcon, DownloadIcon, TrashIcon } from './icons';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  quotaMB: number;
+  notice: string | null;
+  copiedId: string | null;
+  onQuotaChange: (quotaMB: number) => void;
+  onDownload: (entry: HistoryEntry) => void;
+  onCopy: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (ids: string[]) => void;
+  onClear: () => void;
+}
+
+const describeSettings = (settings: CompressionSettings) => {
+  if (settings.convertToGif) {
+    // Entries from before WebP and APNG export have no animation fields.
+    return [
+      ANIMATION_FORMATS[settings.animationFormat ?? 'gif'].label,
+      `${settings.gifResolution}px`,
+      `${settings.gifFps} fps`,
+      settings.animationSpeed && settings.animationSpeed !== 1 ? `${settings.animationSpeed}×` : null,
+      settings.animationPingPong ? 'boomerang' : null,
+    ].filter(Boolean).join(' · ');
+  }
+  if (settings.extractAudio) {
+    return `${AUDIO_FORMATS[settings.audioFormat].label} · ${settings.audioBitrate} kbps`;
+  }
+  return [
+    OUTPUT_FORMATS[settings.outputFormat].label,
+    `${settings.resolution}p`,
+    settings.rateControl === 'crf' ? `CRF ${settings.crf}` : `${settings.targetSizeMB} MB`,
+    settings.aspectRatio !== 'original' ? settings.aspectRatio : null,
+    settings.splitForStatus ? `${settings.segmentLength}s parts` : null,
+  ].filter(Boolean).join(' · ');
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries, quotaMB, notice, copiedId, onQuotaChange, onDownload, onCopy, onRerun, onDelete, onClear,
+}) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const used = entries.reduce((total, entry) => total + entry.outputSize, 0);
+  // Entries can disappear underneath the selection, e.g. when the quota evicts them.
+  const selection = selected.filter((id) => entries.some((entry) => entry.id === id));
+
+  const toggle = (id: string) => {
+    setSelected(selection.includes(id) ? selection.filter((current) => current !== id) : [...selection, id]);
+  };
+
+  if (entries.length === 0 && !notice) return null;
+
+  return (
+    <div className="mt-8 space-y-4">
+      <div className="flex justify-between items-center flex-wrap gap-2">
+        <h3 className="text-xl font-semibold text-white">History</h3>
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <span>{formatBytes(used)} of</span>
+          <select value={quotaMB} aria-label="History storage limit"
+            onChange={(e) => onQuotaChange(parseInt(e.currentTarget.value))}
+            className="bg-gray-700 border-gray-600 text-white text-xs rounded-md py-1 focus:ring-blue-500 focus:border-blue-500">
+            {HISTORY_QUOTA_OPTIONS.map((option) => <option key={option} value={option}>{formatBytes(option * 1024 * 1024, 0)}</option>)}
+          </select>
+          {selection.length > 0 ? (
+            <button onClick={() => { onDelete(selection); setSelected([]); }} className="px-3 py-1 text-red-200 bg-red-500/20 rounded-md hover:bg-red-500/30 transition-colors">
+              Delete {selection.length}
+            </button>
+          ) : (
+            <button onClick={onClear} disabled={entries.length === 0} className="px-3 py-1 text-red-200 bg-red-500/20 rounded-md hover:bg-red-500/30 transition-colors disabled:opacity-50">
+              Clear All
+            </button>
+          )}
+        </div>
+      </div>
+      {notice && <p className="text-xs text-yellow-300">{notice}</p>}
+
+      <ul className="space-y-2">
+        {entries.map((entry) => (
+          <li key={entry.id} className="flex items-center gap-3 bg-white/5 p-3 rounded-lg">
+            <input type="checkbox" checked={selection.includes(entry.id)} onChange={() => toggle(entry.id)} aria-label={`Select ${entry.sourceName}`}
+              className="h-4 w-4 text-blue-500 bg-gray-700 border-gray-600 rounded focus:ring-blue-500" />
+            {entry.thumbnail ? (
+              <img src={entry.thumbnail} alt="" className="w-20 h-12 object-cover rounded-md bg-black flex-shrink-0" />
+            ) : (
+              <div className="w-20 h-12 rounded-md bg-black/40 flex-shrink-0"></div>
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-white truncate" title={entry.sourceName}>{entry.sourceName}</p>
+              <p className="text-xs text-gray-400 truncate">{describeSettings(entry.settings)}</p>
+              <p className="text-xs text-gray-400 font-mono">
+                {formatBytes(entry.sourceSize)} → {formatBytes(entry.outputSize)}
+                {entry.outputNames.length > 1 && ` in ${entry.outputNames.length} parts`} · {formatDuration(entry.duration)} · {formatDate(entry.createdAt)}
+              </p>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <button onClick={() => onDownload(entry)} title={entry.outputNames.length > 1 ? 'Download all parts (ZIP)' : 'Download'}
+                className="p-2 text-green-200 bg-green-500/20 rounded-md hover:bg-green-500/30 transition-colors">
+                <DownloadIcon className="w-4 h-4" />
+              </button>
+              {entry.outputNames.length === 1 && (
+                <button onClick={() => onCopy(entry)} title="Copy to clipboard" className="p-2 text-indigo-200 bg-indigo-500/20 rounded-md hover:bg-indigo-500/30 transition-colors">
+                  {copiedId === entry.id ? <CheckIcon className="w-4 h-4" /> : <CopyIcon className="w-4 h-4" />}
+                </button>
+              )}
+              <button onClick={() => onRerun(entry)} title="Load these settings and pick the source video again"
+                className="px-2 text-xs text-blue-200 bg-blue-500/20 rounded-md hover:bg-blue-500/30 transition-colors">
+                Re-run
+              </button>
+              <button onClick={() => onDelete([entry.id])} aria-label={`Delete ${entry.sourceName}`} className="p-2 text-gray-300 bg-white/5 rounded-md hover:text-red-300 hover:bg-white/10 transition-colors">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
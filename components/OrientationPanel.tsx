@@ -0,0 +1,41 @@
+import React from 'react';
+import { Rotation } from '../services/ffmpegService';
+import { CompressionSettings } from '../types';
+
+type OrientationSettings = Pick<CompressionSettings, 'rotate' | 'flipHorizontal' | 'flipVertical'>;
+
+interface OrientationPanelProps {
+  settings: OrientationSettings;
+  sourceRotation: number; // from the file's metadata, already applied
+  onChange: (patch: Partial<OrientationSettings>) => void;
+}
+
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+const toggleClassName = (active: boolean) =>
+  `text-xs py-2 rounded-md transition-colors ${active ? 'bg-blue-500 text-white' : 'bg-blue-500/20 text-blue-200 hover:bg-blue-500/40'}`;
+
+export const OrientationPanel: React.FC<OrientationPanelProps> = ({ settings, sourceRotation, onChange }) => (
+  <div className="space-y-3">
+    <label className="block text-sm font-medium text-gray-200">Rotate &amp; Flip</label>
+    <div className="grid grid-cols-4 gap-2">
+      {ROTATIONS.map((rotate) => (
+        <button key={rotate} onClick={() => onChange({ rotate })} className={toggleClassName(settings.rotate === rotate)}>
+          {rotate === 0 ? 'None' : `${rotate}°`}
+        </button>
+      ))}
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={() => onChange({ flipHorizontal: !settings.flipHorizontal })} className={toggleClassName(settings.flipHorizontal)}>
+        Flip Horizontal
+      </button>
+      <button onClick={() => onChange({ flipVertical: !settings.flipVertical })} className={toggleClassName(settings.flipVertical)}>
+        Flip Vertical
+      </button>
+    </div>
+    <p className="text-xs text-gray-400">
+      {sourceRotation !== 0 ? `The file's own ${sourceRotation}° rotation is applied already. ` : ''}
+      Turns are clockwise.
+    </p>
+  </div>
+);
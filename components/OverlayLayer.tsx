@@ -0,0 +1,32 @@
+import React from 'react';
+import { OverlayPosition } from '../services/ffmpegService';
+
+interface OverlayLayerProps {
+  src: string;
+  position: OverlayPosition;
+  size: number;
+  opacity: number;
+  // Width / height of the frame the layer sits in, to turn the width-based margin into a vertical offset.
+  frameAspect: number;
+}
+
+// Mirrors OVERLAY_MARGIN in the service so the preview matches the output.
+const MARGIN = 0.03;
+
+/**
+ * Positions the watermark over a preview frame the same way the encoder's
+ * overlay filter places it on the output.
+ */
+export const OverlayLayer: React.FC<OverlayLayerProps> = ({ src, position, size, opacity, frameAspect }) => {
+  const horizontal = `${MARGIN * 100}%`;
+  const vertical = `${MARGIN * frameAspect * 100}%`;
+  const style: Record<string, string | number> = { width: `${size * 100}%`, opacity };
+  if (position === 'center') {
+    Object.assign(style, { left: '50%', top: '50%', transform: 'translate(-50%, -50%)' });
+  } else {
+    const [row, column] = position.split('-');
+    style[row] = vertical;
+    style[column] = horizontal;
+  }
+  return <img src={src} alt="" draggable={false} className="absolute pointer-events-none" style={style} />;
+};
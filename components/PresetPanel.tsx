@@ -0,0 +1,156 @@
+import React, { useRef, useState } from 'react';
+import { CompressionSettings, Preset } from '../types';
+import { BUILT_IN_PRESETS, createPresetLink, mergePresets, parsePresetFile, toPresetSettings } from '../services/presetStore';
+import { CheckIcon, CopyIcon, DownloadIcon, TrashIcon } from './icons';
+
+interface PresetPanelProps {
+  presets: Preset[]; // saved by the user; built-ins are added here
+  defaultPresetId: string | null;
+  settings: CompressionSettings;
+  onApply: (preset: Preset) => void;
+  onPresetsChange: (presets: Preset[]) => void;
+  onDefaultChange: (id: string | null) => void;
+  onExport: () => void;
+}
+
+const rowButton = 'text-xs px-2 py-1 rounded-md bg-white/5 text-gray-300 hover:bg-white/10 transition-colors disabled:opacity-30';
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({ presets, defaultPresetId, settings, onApply, onPresetsChange, onDefaultChange, onExport }) => {
+  const [isManaging, setIsManaging] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const allPresets = [...BUILT_IN_PRESETS, ...presets];
+
+  const update = (id: string, patch: Partial<Preset>) => {
+    onPresetsChange(presets.map((preset) => (preset.id === id ? { ...preset, ...patch } : preset)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...presets];
+    const [preset] = next.splice(index, 1);
+    next.splice(index + offset, 0, preset);
+    onPresetsChange(next);
+  };
+
+  const remove = (id: string) => {
+    onPresetsChange(presets.filter((preset) => preset.id !== id));
+    if (defaultPresetId === id) onDefaultChange(null);
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const preset: Preset = { id: crypto.randomUUID(), name, settings: toPresetSettings(settings), builtIn: false };
+    onPresetsChange(mergePresets(presets, [preset]));
+    setNewName('');
+    setMessage({ text: `Saved "${name}".`, isError: false });
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text(), toPresetSettings(settings));
+      onPresetsChange(mergePresets(presets, imported));
+      setMessage({ text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not import the presets.', isError: true });
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const handleCopyLink = async (preset: Preset) => {
+    try {
+      await navigator.clipboard.writeText(createPresetLink(preset));
+      setCopiedId(preset.id);
+      setTimeout(() => setCopiedId((current) => (current === preset.id ? null : current)), 2000);
+    } catch (err) {
+      console.error('Failed to copy the preset link:', err);
+      setMessage({ text: 'Copying the link failed. Your browser may not allow clipboard access.', isError: true });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="block text-sm font-medium text-gray-200">Presets</label>
+        <button onClick={() => { setIsManaging(!isManaging); setMessage(null); }} className="text-xs text-blue-300 hover:text-blue-200">
+          {isManaging ? 'Done' : 'Manage'}
+        </button>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {allPresets.map((preset) => (
+          <button key={preset.id} onClick={() => onApply(preset)} title={preset.id === defaultPresetId ? 'Applied when the app opens' : undefined}
+            className={`text-xs py-2 px-1 rounded-md transition-colors truncate ${preset.builtIn ? 'bg-blue-500/20 text-blue-200 hover:bg-blue-500/40' : 'bg-emerald-500/20 text-emerald-200 hover:bg-emerald-500/40'}`}>
+            {preset.id === defaultPresetId && '★ '}{preset.name}
+          </button>
+        ))}
+      </div>
+
+      {isManaging && (
+        <div className="space-y-3 bg-black/20 p-3 rounded-lg">
+          <div className="flex gap-2">
+            <input type="text" value={newName} placeholder="Name for the current settings" maxLength={40}
+              onChange={(e) => setNewName(e.currentTarget.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              className="flex-1 min-w-0 bg-gray-700 border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500" />
+            <button onClick={handleSave} disabled={!newName.trim()}
+              className="text-xs px-3 py-2 font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50">
+              Save
+            </button>
+          </div>
+
+          {presets.length > 0 && (
+            <ul className="space-y-2">
+              {presets.map((preset, index) => (
+                <li key={preset.id} className="flex items-center gap-1">
+                  <input type="text" value={preset.name} aria-label="Preset name" maxLength={40}
+                    onChange={(e) => update(preset.id, { name: e.currentTarget.value })}
+                    onBlur={() => { if (!preset.name.trim()) update(preset.id, { name: 'Untitled' }); }}
+                    className="flex-1 min-w-0 bg-transparent border-0 border-b border-white/10 text-sm text-white px-1 py-0.5 focus:ring-0 focus:border-blue-400" />
+                  <button onClick={() => move(index, -1)} disabled={index === 0} className={rowButton} aria-label="Move up">↑</button>
+                  <button onClick={() => move(index, 1)} disabled={index === presets.length - 1} className={rowButton} aria-label="Move down">↓</button>
+                  <button onClick={() => update(preset.id, { settings: toPresetSettings(settings) })} className={rowButton} title="Replace with the current settings">
+                    Update
+                  </button>
+                  <button onClick={() => handleCopyLink(preset)} className={rowButton} title="Copy a link that imports this preset">
+                    {copiedId === preset.id ? <CheckIcon className="w-3.5 h-3.5" /> : <CopyIcon className="w-3.5 h-3.5" />}
+                  </button>
+                  <button onClick={() => remove(preset.id)} className={`${rowButton} hover:text-red-300`} aria-label={`Delete ${preset.name}`}>
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div>
+            <label htmlFor="defaultPreset" className="block text-xs text-gray-400 mb-1">Default preset (applied when the app opens)</label>
+            <select id="defaultPreset" value={defaultPresetId ?? ''}
+              onChange={(e) => onDefaultChange(e.currentTarget.value || null)}
+              className="block w-full bg-gray-700 border-gray-600 text-white text-sm rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500">
+              <option value="">None (keep the last used settings)</option>
+              {allPresets.map((preset) => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={onExport} disabled={presets.length === 0}
+              className="flex-1 flex items-center justify-center gap-1 text-xs py-2 bg-white/10 text-gray-200 rounded-md hover:bg-white/20 transition-colors disabled:opacity-50">
+              <DownloadIcon className="w-4 h-4" /> Export JSON
+            </button>
+            <button onClick={() => importInputRef.current?.click()}
+              className="flex-1 text-xs py-2 bg-white/10 text-gray-200 rounded-md hover:bg-white/20 transition-colors">
+              Import JSON
+            </button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" className="sr-only"
+              onChange={(e) => handleImport(e.currentTarget.files?.[0])} />
+          </div>
+          {message && <p className={`text-xs ${message.isError ? 'text-red-300' : 'text-green-300'}`}>{message.text}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
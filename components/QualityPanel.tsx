@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { QualityMetric, QualityReport } from '../services/ffmpegService';
+import { SpinnerIcon } from './icons';
+
+interface QualityPanelProps {
+  report: QualityReport | null;
+  metrics: QualityMetric[]; // what the loaded core can measure
+  isMeasuring: boolean;
+  progress: number;
+  error: string | null;
+  onMeasure: () => void;
+  onCancel: () => void;
+}
+
+interface MetricInfo {
+  label: string;
+  format: (value: number) => string;
+  // Lower bounds of "Excellent", "Good" and "Fair"; anything below is "Poor".
+  thresholds: [number, number, number];
+  // Fixed graph range, widened when a sample falls outside it.
+  range: [number, number];
+}
+
+const METRICS: Record<QualityMetric, MetricInfo> = {
+  ssim: { label: 'SSIM', format: (value) => value.toFixed(3), thresholds: [0.98, 0.95, 0.9], range: [0.9, 1] },
+  psnr: { label: 'PSNR', format: (value) => `${value.toFixed(1)} dB`, thresholds: [40, 35, 30], range: [25, 50] },
+  vmaf: { label: 'VMAF', format: (value) => value.toFixed(1), thresholds: [90, 80, 70], range: [50, 100] },
+};
+
+const VERDICTS = [
+  { label: 'Excellent', className: 'text-green-300' },
+  { label: 'Good', className: 'text-lime-300' },
+  { label: 'Fair', className: 'text-yellow-300' },
+  { label: 'Poor', className: 'text-red-300' },
+];
+
+const verdictFor = (metric: QualityMetric, value: number) => {
+  const index = METRICS[metric].thresholds.findIndex((threshold) => value >= threshold);
+  return VERDICTS[index === -1 ? VERDICTS.length - 1 : index];
+};
+
+const GRAPH_WIDTH = 600;
+const GRAPH_HEIGHT = 120;
+
+const QualityGraph: React.FC<{ report: QualityReport; metric: QualityMetric }> = ({ report, metric }) => {
+  const points = report.samples.flatMap((sample) => (sample[metric] === null ? [] : [{ time: sample.time, value: sample[metric]! }]));
+  if (points.length === 0) return null;
+
+  const values = points.map((point) => point.value);
+  const min = Math.min(METRICS[metric].range[0], ...values);
+  const max = Math.max(METRICS[metric].range[1], ...values);
+  const lastTime = Math.max(points[points.length - 1].time, 1);
+  const x = (time: number) => (time / lastTime) * GRAPH_WIDTH;
+  const y = (value: number) => GRAPH_HEIGHT - ((value - min) / (max - min || 1)) * GRAPH_HEIGHT;
+  const worst = points.reduce((lowest, point) => (point.value < lowest.value ? point : lowest));
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`} preserveAspectRatio="none" className="w-full h-32 bg-black/20 rounded-md">
+        {METRICS[metric].thresholds.map((threshold) => threshold > min && threshold < max && (
+          <line key={threshold} x1="0" x2={GRAPH_WIDTH} y1={y(threshold)} y2={y(threshold)}
+            stroke="rgba(255,255,255,0.15)" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        ))}
+        <polyline fill="none" stroke="#60a5fa" strokeWidth="2" vectorEffect="non-scaling-stroke"
+          points={points.map((point) => `${x(point.time)},${y(point.value)}`).join(' ')} />
+      </svg>
+      <div className="flex justify-between text-xs font-mono text-gray-400 mt-1">
+        <span>0s</span>
+        <span>Lowest {METRICS[metric].format(worst.value)} at {worst.time}s</span>
+        <span>{lastTime}s</span>
+      </div>
+    </div>
+  );
+};
+
+export const QualityPanel: React.FC<QualityPanelProps> = ({ report, metrics, isMeasuring, progress, error, onMeasure, onCancel }) => {
+  const [graphMetric, setGraphMetric] = useState<QualityMetric | null>(null);
+  const measured = report ? metrics.filter((metric) => report[metric] !== null) : [];
+  // VMAF is closest to what viewers perceive, so it leads when available.
+  const shownMetric = graphMetric && measured.includes(graphMetric) ? graphMetric : measured.includes('vmaf') ? 'vmaf' : measured[0];
+
+  return (
+    <div className="bg-white/5 p-4 rounded-lg space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Quality Check</h3>
+          <p className="text-xs text-gray-400">
+            Compares every frame with the original using {metrics.map((metric) => METRICS[metric].label).join(', ') || 'SSIM and PSNR'}.
+          </p>
+        </div>
+        {isMeasuring ? (
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-semibold text-red-200 bg-red-500/20 rounded-lg hover:bg-red-500/30 transition-colors">
+            Cancel
+          </button>
+        ) : (
+          <button onClick={onMeasure} disabled={metrics.length === 0}
+            className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50">
+            {report ? 'Measure Again' : 'Measure Quality'}
+          </button>
+        )}
+      </div>
+
+      {isMeasuring && (
+        <div className="flex items-center gap-3">
+          <SpinnerIcon className="w-4 h-4 animate-spin text-gray-300" />
+          <div className="flex-1 bg-white/10 rounded-full h-2 overflow-hidden">
+            <div className="bg-blue-500 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+          </div>
+          <span className="text-xs font-mono text-gray-300">{progress}%</span>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {report && shownMetric && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {measured.map((metric) => {
+              const verdict = verdictFor(metric, report[metric]!);
+              return (
+                <button key={metric} onClick={() => setGraphMetric(metric)}
+                  className={`text-left p-3 rounded-lg transition-colors ${metric === shownMetric ? 'bg-blue-500/20 ring-1 ring-blue-400' : 'bg-black/20 hover:bg-black/30'}`}>
+                  <p className="text-xs text-gray-400">{METRICS[metric].label}</p>
+                  <p className="text-xl font-mono text-white">{METRICS[metric].format(report[metric]!)}</p>
+                  <p className={`text-xs font-semibold ${verdict.className}`}>{verdict.label}</p>
+                </button>
+              );
+            })}
+          </div>
+          <QualityGraph report={report} metric={shownMetric} />
+        </>
+      )}
+    </div>
+  );
+};
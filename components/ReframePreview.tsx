@@ -0,0 +1,89 @@
+import React, { useRef } from 'react';
+import { ASPECT_RATIOS, AspectRatio, ReframeMode } from '../services/ffmpegService';
+
+interface ReframePreviewProps {
+  thumbnail: string;
+  // Display size of the source, i.e. already swapped for rotated videos.
+  sourceWidth: number;
+  sourceHeight: number;
+  aspectRatio: Exclude<AspectRatio, 'original'>;
+  mode: ReframeMode;
+  padColor: string;
+  cropOffset: number;
+  onCropOffsetChange: (offset: number) => void;
+  // Drawn inside the output frame, e.g. the watermark preview.
+  children?: React.ReactNode;
+}
+
+export const ReframePreview: React.FC<ReframePreviewProps> = ({
+  thumbnail,
+  sourceWidth,
+  sourceHeight,
+  aspectRatio,
+  mode,
+  padColor,
+  cropOffset,
+  onCropOffsetChange,
+  children,
+}) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointer: number; offset: number } | null>(null);
+
+  const sourceAspect = sourceWidth / sourceHeight;
+  const targetAspect = ASPECT_RATIOS[aspectRatio];
+  // The crop window spans the full height when the source is wider than the target, and vice versa.
+  const slidesHorizontally = sourceAspect > targetAspect;
+  const windowSize = slidesHorizontally ? targetAspect / sourceAspect : sourceAspect / targetAspect;
+
+  if (mode !== 'crop') {
+    return (
+      <div className="flex justify-center bg-black/40 rounded-lg p-2">
+        <div
+          className="relative overflow-hidden rounded-md max-h-96 h-96"
+          style={{ aspectRatio: `${targetAspect}`, backgroundColor: mode === 'color' ? padColor : undefined }}
+        >
+          {mode === 'blur' && (
+            <img src={thumbnail} alt="" className="absolute inset-0 w-full h-full object-cover blur-md scale-110" />
+          )}
+          <img src={thumbnail} alt="Reframe preview" className="absolute inset-0 w-full h-full object-contain" />
+          {children}
+        </div>
+      </div>
+    );
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointer: slidesHorizontally ? e.clientX : e.clientY, offset: cropOffset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const frame = frameRef.current;
+    if (!dragRef.current || !frame || windowSize >= 1) return;
+    const rect = frame.getBoundingClientRect();
+    const trackLength = (slidesHorizontally ? rect.width : rect.height) * (1 - windowSize);
+    const delta = (slidesHorizontally ? e.clientX : e.clientY) - dragRef.current.pointer;
+    onCropOffsetChange(Math.min(Math.max(dragRef.current.offset + delta / trackLength, 0), 1));
+  };
+
+  const windowStyle = slidesHorizontally
+    ? { top: 0, bottom: 0, width: `${windowSize * 100}%`, left: `${(1 - windowSize) * cropOffset * 100}%` }
+    : { left: 0, right: 0, height: `${windowSize * 100}%`, top: `${(1 - windowSize) * cropOffset * 100}%` };
+
+  return (
+    <div ref={frameRef} className="relative overflow-hidden rounded-lg select-none" style={{ aspectRatio: `${sourceAspect}` }}>
+      <img src={thumbnail} alt="Reframe preview" draggable={false} className="absolute inset-0 w-full h-full" />
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        className={`absolute border-2 border-blue-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] touch-none ${slidesHorizontally ? 'cursor-ew-resize' : 'cursor-ns-resize'}`}
+        style={windowStyle}
+        title="Drag to choose what stays in frame"
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
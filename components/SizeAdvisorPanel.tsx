@@ -0,0 +1,82 @@
+import React from 'react';
+import { CurvePoint, DESTINATIONS, SizeRecommendation } from '../services/ffmpegService';
+import { SpinnerIcon } from './icons';
+
+interface SizeAdvisorPanelProps {
+  destinationId: string;
+  curve: CurvePoint[] | null; // null until the clip is analyzed
+  recommendation: SizeRecommendation | null;
+  warning: string | null;
+  canAnalyze: boolean; // the loaded core has the ssim filter
+  isAnalyzing: boolean;
+  progress: number;
+  error: string | null;
+  onDestinationChange: (id: string) => void;
+  onAnalyze: () => void;
+  onCancel: () => void;
+  onApply: (recommendation: SizeRecommendation) => void;
+}
+
+export const SizeAdvisorPanel: React.FC<SizeAdvisorPanelProps> = ({
+  destinationId, curve, recommendation, warning, canAnalyze, isAnalyzing, progress, error,
+  onDestinationChange, onAnalyze, onCancel, onApply,
+}) => (
+  <div className="space-y-3 bg-black/20 p-3 rounded-lg">
+    <div className="flex justify-between items-center gap-2">
+      <div>
+        <p className="text-sm font-medium text-gray-200">Size Advisor</p>
+        <p className="text-xs text-gray-400">Test-encodes a few seconds to see how much this clip needs.</p>
+      </div>
+      {isAnalyzing ? (
+        <button onClick={onCancel} className="text-xs px-3 py-2 font-semibold text-red-200 bg-red-500/20 rounded-md hover:bg-red-500/30 transition-colors">
+          Cancel
+        </button>
+      ) : (
+        <button onClick={onAnalyze} disabled={!canAnalyze} title={canAnalyze ? undefined : 'This FFmpeg build has no SSIM filter.'}
+          className="text-xs px-3 py-2 font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50">
+          {curve ? 'Analyze Again' : 'Analyze Clip'}
+        </button>
+      )}
+    </div>
+
+    <div>
+      <label htmlFor="sizeDestination" className="block text-xs text-gray-400 mb-1">Destination</label>
+      <select id="sizeDestination" value={destinationId}
+        onChange={(e) => onDestinationChange(e.currentTarget.value)}
+        className="block w-full bg-gray-700 border-gray-600 text-white text-sm rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500">
+        {DESTINATIONS.map((destination) => <option key={destination.id} value={destination.id}>{destination.label}</option>)}
+      </select>
+    </div>
+
+    {isAnalyzing && (
+      <div className="flex items-center gap-3">
+        <SpinnerIcon className="w-4 h-4 animate-spin text-gray-300" />
+        <div className="flex-1 bg-white/10 rounded-full h-2 overflow-hidden">
+          <div className="bg-blue-500 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+        </div>
+        <span className="text-xs font-mono text-gray-300">{progress}%</span>
+      </div>
+    )}
+    {error && <p className="text-xs text-red-300">{error}</p>}
+
+    {curve && (
+      <p className="text-xs text-gray-400 font-mono">
+        {curve.map((point) => `${point.bitsPerPixel.toFixed(3)} bpp → ${point.ssim.toFixed(3)}`).join(' · ')}
+      </p>
+    )}
+    {curve && (recommendation ? (
+      <div className="flex justify-between items-center gap-2">
+        <p className="text-sm text-white">
+          {recommendation.resolution}p at {recommendation.targetSizeMB} MB
+          <span className="block text-xs text-gray-400">Predicted SSIM {recommendation.ssim.toFixed(3)}</span>
+        </p>
+        <button onClick={() => onApply(recommendation)} className="text-xs px-3 py-2 text-blue-200 bg-blue-500/20 rounded-md hover:bg-blue-500/40 transition-colors">
+          Apply
+        </button>
+      </div>
+    ) : (
+      <p className="text-xs text-red-300">The audio alone fills this size. Pick a larger destination or remove the audio.</p>
+    ))}
+    {warning && <p className="text-xs text-yellow-300">{warning}</p>}
+  </div>
+);
@@ -0,0 +1,89 @@
+import React from 'react';
+import { SUBTITLE_FONTS, SubtitleCue, SubtitleFont, SubtitleMode, SubtitlePosition, SubtitleSize } from '../services/ffmpegService';
+import { CompressionSettings } from '../types';
+import { formatDuration } from '../utils/format';
+
+type SubtitleSettings = Pick<CompressionSettings, 'subtitleMode' | 'subtitleFont' | 'subtitleSize' | 'subtitlePosition'>;
+
+interface SubtitlePanelProps {
+  settings: SubtitleSettings;
+  cues: SubtitleCue[];
+  fileName: string | null;
+  error: string | null;
+  // The trimmed range, on the source timeline; cues are listed relative to its start.
+  clipStart: number;
+  clipEnd: number;
+  onFileChange: (file: File | null) => void;
+  onChange: (patch: Partial<SubtitleSettings>) => void;
+}
+
+const MODES: [SubtitleMode, string][] = [
+  ['burn', 'Burn In'],
+  ['soft', 'Soft Track'],
+];
+
+const selectClassName = 'block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+
+export const SubtitlePanel: React.FC<SubtitlePanelProps> = ({ settings, cues, fileName, error, clipStart, clipEnd, onFileChange, onChange }) => (
+  <div className="space-y-3">
+    <label className="block text-sm font-medium text-gray-200">Subtitles</label>
+    <div className="flex items-center gap-2">
+      <input id="subtitleFile" type="file" accept=".srt,.vtt"
+        onChange={(e) => onFileChange(e.currentTarget.files?.[0] ?? null)}
+        className="block w-full text-xs text-gray-300 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:bg-white/10 file:text-white hover:file:bg-white/20" />
+      {fileName && (
+        <button onClick={() => onFileChange(null)} className="text-xs px-2 py-1 text-red-300 bg-red-500/10 hover:bg-red-500/20 rounded-md">
+          Remove
+        </button>
+      )}
+    </div>
+    {error && <p className="text-xs text-red-300">{error}</p>}
+    {fileName && !error && (
+      <>
+        <p className="text-xs text-gray-400">{fileName} · {cues.length} cues</p>
+        <ol className="max-h-40 overflow-y-auto bg-black/20 rounded-md divide-y divide-white/5 text-xs">
+          {cues.map((cue, i) => {
+            const inClip = cue.end > clipStart && cue.start < clipEnd;
+            return (
+              <li key={i} className={`flex gap-3 p-2 ${inClip ? 'text-gray-200' : 'text-gray-500'}`}
+                title={inClip ? undefined : 'Outside the trimmed range'}>
+                <span className="font-mono shrink-0">
+                  {inClip ? formatDuration(Math.max(cue.start - clipStart, 0)) : '--:--'}
+                </span>
+                <span className="whitespace-pre-line">{cue.text.replace(/<\/?[ibu]>/g, '')}</span>
+              </li>
+            );
+          })}
+        </ol>
+        <div className="grid grid-cols-2 gap-2">
+          {MODES.map(([mode, label]) => (
+            <button key={mode} onClick={() => onChange({ subtitleMode: mode })}
+              className={`text-xs py-2 rounded-md transition-colors ${settings.subtitleMode === mode ? 'bg-blue-500 text-white' : 'bg-blue-500/20 text-blue-200 hover:bg-blue-500/40'}`}>
+              {label}
+            </button>
+          ))}
+        </div>
+        {settings.subtitleMode === 'burn' ? (
+          <div className="grid grid-cols-3 gap-2">
+            <select value={settings.subtitleFont} onChange={(e) => onChange({ subtitleFont: e.currentTarget.value as SubtitleFont })} className={selectClassName}>
+              {(Object.keys(SUBTITLE_FONTS) as SubtitleFont[]).map((font) => (
+                <option key={font} value={font}>{SUBTITLE_FONTS[font].label}</option>
+              ))}
+            </select>
+            <select value={settings.subtitleSize} onChange={(e) => onChange({ subtitleSize: e.currentTarget.value as SubtitleSize })} className={selectClassName}>
+              <option value="small">Small</option>
+              <option value="medium">Medium</option>
+              <option value="large">Large</option>
+            </select>
+            <select value={settings.subtitlePosition} onChange={(e) => onChange({ subtitlePosition: e.currentTarget.value as SubtitlePosition })} className={selectClassName}>
+              <option value="bottom">Bottom</option>
+              <option value="top">Top</option>
+            </select>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-400">Added as a track viewers can switch on or off. WhatsApp and most social apps ignore soft tracks, so burn in for sharing.</p>
+        )}
+      </>
+    )}
+  </div>
+);
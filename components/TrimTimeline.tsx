@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatDuration } from '../utils/format';
+
+interface TrimTimelineProps {
+  duration: number;
+  start: number;
+  end: number;
+  frames: string[];
+  videoUrl: string;
+  onChange: (start: number, end: number) => void;
+}
+
+// Shortest selection the handles can be squeezed to, in seconds.
+const MIN_SELECTION = 0.1;
+
+type Handle = 'start' | 'end';
+
+export const TrimTimeline: React.FC<TrimTimelineProps> = ({ duration, start, end, frames, videoUrl, onChange }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [dragging, setDragging] = useState<Handle | null>(null);
+  const [playhead, setPlayhead] = useState(start);
+
+  const toPercent = (seconds: number) => `${(seconds / duration) * 100}%`;
+
+  // Jump the preview back into the selection whenever the range moves.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.currentTime < start || video.currentTime >= end) {
+      video.currentTime = start;
+    }
+  }, [start, end]);
+
+  const timeFromPointer = (clientX: number) => {
+    const track = trackRef.current;
+    if (!track) return 0;
+    const rect = track.getBoundingClientRect();
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return ratio * duration;
+  };
+
+  const moveHandle = (handle: Handle, time: number) => {
+    if (handle === 'start') {
+      onChange(Math.min(time, end - MIN_SELECTION), end);
+    } else {
+      onChange(start, Math.max(time, start + MIN_SELECTION));
+    }
+  };
+
+  const handlePointerDown = (handle: Handle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(handle);
+  };
+
+  // A click on a handle, including the one that ends a drag, must not reach the track.
+  const handleHandleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging) return;
+    moveHandle(dragging, timeFromPointer(e.clientX));
+  };
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // Clicking the strip moves whichever handle is closer.
+    const time = timeFromPointer(e.clientX);
+    moveHandle(Math.abs(time - start) <= Math.abs(time - end) ? 'start' : 'end', time);
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    // Loop the selected range rather than the whole file.
+    if (video.currentTime >= end || video.currentTime < start) {
+      video.currentTime = start;
+    }
+    setPlayhead(video.currentTime);
+  };
+
+  const handleClassName = 'absolute top-0 bottom-0 w-3 -ml-1.5 bg-blue-400 rounded cursor-ew-resize touch-none';
+
+  return (
+    <div className="bg-white/5 p-4 rounded-lg space-y-3">
+      <video
+        ref={videoRef}
+        src={videoUrl}
+        controls
+        muted
+        onTimeUpdate={handleTimeUpdate}
+        className="w-full rounded-md bg-black"
+      ></video>
+      <div
+        ref={trackRef}
+        onClick={handleTrackClick}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        className="relative h-14 rounded-md overflow-hidden bg-white/10 select-none"
+      >
+        <div className="absolute inset-0 flex">
+          {frames.map((frame, i) => (
+            <img key={i} src={frame} alt="" draggable={false} className="h-full flex-1 object-cover min-w-0" />
+          ))}
+        </div>
+        <div className="absolute top-0 bottom-0 left-0 bg-black/60" style={{ width: toPercent(start) }}></div>
+        <div className="absolute top-0 bottom-0 right-0 bg-black/60" style={{ left: toPercent(end) }}></div>
+        <div className="absolute top-0 bottom-0 border-y-2 border-blue-400 pointer-events-none" style={{ left: toPercent(start), right: `calc(100% - ${toPercent(end)})` }}></div>
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: toPercent(playhead) }}></div>
+        <div onPointerDown={handlePointerDown('start')} onClick={handleHandleClick} className={handleClassName} style={{ left: toPercent(start) }} title="Drag to set the start"></div>
+        <div onPointerDown={handlePointerDown('end')} onClick={handleHandleClick} className={handleClassName} style={{ left: toPercent(end) }} title="Drag to set the end"></div>
+      </div>
+      <div className="flex justify-between text-xs font-mono text-gray-300">
+        <span>In {formatDuration(start)}</span>
+        <span className="text-white">{formatDuration(end - start)} selected</span>
+        <span>Out {formatDuration(end)}</span>
+      </div>
+    </div>
+  );
+};
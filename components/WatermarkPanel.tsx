@@ -0,0 +1,88 @@
+import React from 'react';
+import { OverlayPosition } from '../services/ffmpegService';
+import { CompressionSettings, OverlayType } from '../types';
+
+type WatermarkSettings = Pick<CompressionSettings,
+  'overlayType' | 'overlayText' | 'overlayPosition' | 'overlaySize' | 'overlayOpacity' | 'overlayStartTime' | 'overlayEndTime'>;
+
+interface WatermarkPanelProps {
+  settings: WatermarkSettings;
+  image: File | null;
+  onImageChange: (image: File | null) => void;
+  onChange: (patch: Partial<WatermarkSettings>) => void;
+}
+
+const POSITIONS: [OverlayPosition, string][] = [
+  ['top-left', 'Top Left'],
+  ['top-right', 'Top Right'],
+  ['center', 'Center'],
+  ['bottom-left', 'Bottom Left'],
+  ['bottom-right', 'Bottom Right'],
+];
+
+export const WatermarkPanel: React.FC<WatermarkPanelProps> = ({ settings, image, onImageChange, onChange }) => (
+  <div className="space-y-3">
+    <label className="block text-sm font-medium text-gray-200">Watermark</label>
+    <div className="grid grid-cols-3 gap-2">
+      {([['none', 'None'], ['image', 'Logo'], ['text', 'Text']] as [OverlayType, string][]).map(([type, label]) => (
+        <button key={type} onClick={() => onChange({ overlayType: type })}
+          className={`text-xs py-2 rounded-md transition-colors ${settings.overlayType === type ? 'bg-blue-500 text-white' : 'bg-blue-500/20 text-blue-200 hover:bg-blue-500/40'}`}>
+          {label}
+        </button>
+      ))}
+    </div>
+    {settings.overlayType === 'image' && (
+      <div>
+        <input id="overlayImage" type="file" accept="image/png"
+          onChange={(e) => onImageChange(e.currentTarget.files?.[0] ?? null)}
+          className="block w-full text-xs text-gray-300 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:bg-white/10 file:text-white hover:file:bg-white/20" />
+        <p className="text-xs text-gray-400 mt-1">
+          {image ? image.name : 'A PNG with a transparent background works best.'}
+        </p>
+      </div>
+    )}
+    {settings.overlayType === 'text' && (
+      <textarea value={settings.overlayText} rows={2} placeholder="@yourhandle"
+        onChange={(e) => onChange({ overlayText: e.currentTarget.value })}
+        className="block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm text-sm p-2 focus:ring-blue-500 focus:border-blue-500" />
+    )}
+    {settings.overlayType !== 'none' && (
+      <>
+        <select value={settings.overlayPosition}
+          onChange={(e) => onChange({ overlayPosition: e.currentTarget.value as OverlayPosition })}
+          className="block w-full bg-gray-700 border-gray-600 text-white rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500">
+          {POSITIONS.map(([position, label]) => (
+            <option key={position} value={position}>{label}</option>
+          ))}
+        </select>
+        <div>
+          <label htmlFor="overlaySize" className="flex justify-between text-xs text-gray-300">
+            <span>Size</span>
+            <span>{Math.round(settings.overlaySize * 100)}% of width</span>
+          </label>
+          <input id="overlaySize" type="range" min="0.05" max="0.6" step="0.01" value={settings.overlaySize}
+            onChange={(e) => onChange({ overlaySize: parseFloat(e.currentTarget.value) })}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+        </div>
+        <div>
+          <label htmlFor="overlayOpacity" className="flex justify-between text-xs text-gray-300">
+            <span>Opacity</span>
+            <span>{Math.round(settings.overlayOpacity * 100)}%</span>
+          </label>
+          <input id="overlayOpacity" type="range" min="0.1" max="1" step="0.05" value={settings.overlayOpacity}
+            onChange={(e) => onChange({ overlayOpacity: parseFloat(e.currentTarget.value) })}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input type="text" value={settings.overlayStartTime} placeholder="Show from (start)"
+            onChange={(e) => onChange({ overlayStartTime: e.currentTarget.value })}
+            className="bg-gray-700 border-gray-600 text-white rounded-md shadow-sm text-sm p-2 focus:ring-blue-500 focus:border-blue-500" />
+          <input type="text" value={settings.overlayEndTime} placeholder="Until (end)"
+            onChange={(e) => onChange({ overlayEndTime: e.currentTarget.value })}
+            className="bg-gray-700 border-gray-600 text-white rounded-md shadow-sm text-sm p-2 focus:ring-blue-500 focus:border-blue-500" />
+        </div>
+        <p className="text-xs text-gray-400">Times refer to the original video. Leave empty to show it throughout.</p>
+      </>
+    )}
+  </div>
+);
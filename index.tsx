@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './services/shareTarget';
 
 // FIX: Cast window to any to access document property due to missing DOM typings.
 const rootElement = (window as any).document.getElementById('root');
@@ -14,3 +15,8 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Skipped in dev so cached assets never mask Vite's hot reloads.
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
@@ -0,0 +1,87 @@
+// Service worker: keeps the app shell available offline and receives videos
+// shared from other apps through the manifest's share_target.
+
+const SHELL_CACHE = 'vidwa-shell-v1';
+// Read by services/shareTarget.ts; keep the names in sync.
+const SHARE_CACHE = 'vidwa-share-target';
+const SHARED_FILE_KEY = '/shared-video';
+
+// Third-party files the page loads from a CDN (Tailwind and the Inter font).
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter((name) => name.startsWith('vidwa-shell-') && name !== SHELL_CACHE)
+      .map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const handleShareTarget = async (request) => {
+  const formData = await request.formData();
+  const file = formData.getAll('video').find((entry) => entry instanceof File);
+  const cache = await caches.open(SHARE_CACHE);
+  if (file) {
+    await cache.put(SHARED_FILE_KEY, new Response(file, {
+      headers: {
+        'Content-Type': file.type || 'video/mp4',
+        'X-File-Name': encodeURIComponent(file.name || 'shared-video.mp4'),
+      },
+    }));
+  }
+  return Response.redirect('/?shared=1', 303);
+};
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request) ?? await cache.match('/');
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque CDN responses report status 0 but are still usable offline.
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'POST' && url.origin === self.location.origin && url.pathname === '/share-target') {
+    event.respondWith(handleShareTarget(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    // The FFmpeg core is cached by the page itself; don't store the 30 MB wasm twice.
+    if (url.pathname.includes('ffmpeg-core')) return;
+    event.respondWith(cacheFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
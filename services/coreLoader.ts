@@ -0,0 +1,161 @@
+import bundledCoreURL from '@ffmpeg/core?url';
+import bundledWasmURL from '@ffmpeg/core/wasm?url';
+import bundledMtCoreURL from '@ffmpeg/core-mt?url';
+import bundledMtWasmURL from '@ffmpeg/core-mt/wasm?url';
+import bundledMtWorkerURL from '@ffmpeg/core-mt/worker?url';
+
+export type CoreMode = 'multi-thread' | 'single-thread';
+
+export interface CoreLoadProgress {
+  loaded: number; // bytes
+  total: number | null; // null when the server sends no Content-Length
+  fromCache: boolean;
+}
+
+export type CoreLoadProgressCallback = (progress: CoreLoadProgress) => void;
+
+export interface CoreURLs {
+  coreURL: string;
+  wasmURL: string;
+  workerURL?: string;
+}
+
+const CACHE_NAMES: Record<CoreMode, string> = {
+  'single-thread': 'ffmpeg-core',
+  'multi-thread': 'ffmpeg-core-mt',
+};
+
+interface CoreFile {
+  url: string;
+  mimeType: string;
+}
+
+/**
+ * The multi-threaded core runs FFmpeg's threads as workers sharing one
+ * SharedArrayBuffer, which browsers only allow on cross-origin isolated pages.
+ */
+export const getCoreMode = (): CoreMode =>
+  typeof SharedArrayBuffer !== 'undefined' && window.crossOriginIsolated ? 'multi-thread' : 'single-thread';
+
+const resolveURL = (url: string) => new URL(url, window.location.href).href;
+
+// Bundled URLs carry a content hash, so a new build never reuses a stale cache entry.
+const getCoreFiles = (mode: CoreMode): CoreFile[] => {
+  const baseURL = (mode === 'multi-thread' ? import.meta.env.VITE_FFMPEG_CORE_MT_URL : import.meta.env.VITE_FFMPEG_CORE_URL)
+    ?.replace(/\/+$/, '');
+  const bundled = mode === 'multi-thread'
+    ? { core: bundledMtCoreURL, wasm: bundledMtWasmURL, worker: bundledMtWorkerURL }
+    : { core: bundledCoreURL, wasm: bundledWasmURL, worker: null };
+  const files = [
+    { url: resolveURL(baseURL ? `${baseURL}/ffmpeg-core.js` : bundled.core), mimeType: 'text/javascript' },
+    { url: resolveURL(baseURL ? `${baseURL}/ffmpeg-core.wasm` : bundled.wasm), mimeType: 'application/wasm' },
+  ];
+  if (bundled.worker) {
+    files.push({ url: resolveURL(baseURL ? `${baseURL}/ffmpeg-core.worker.js` : bundled.worker), mimeType: 'text/javascript' });
+  }
+  return files;
+};
+
+const openCache = async (name: string): Promise<Cache | null> => {
+  // Cache Storage only exists in secure contexts.
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(name);
+  } catch {
+    return null;
+  }
+};
+
+const fetchCoreFile = async (file: CoreFile, cache: Cache | null): Promise<{ response: Response; fromCache: boolean }> => {
+  const cached = await cache?.match(file.url);
+  if (cached) {
+    return { response: cached, fromCache: true };
+  }
+  const response = await fetch(file.url);
+  if (!response.ok) {
+    throw new Error(`Could not download ${file.url} (HTTP ${response.status}).`);
+  }
+  return { response, fromCache: false };
+};
+
+const readBody = async (response: Response, mimeType: string, onBytes: (loaded: number) => void): Promise<Blob> => {
+  if (!response.body) {
+    const blob = await response.blob();
+    onBytes(blob.size);
+    return new Blob([blob], { type: mimeType });
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onBytes(loaded);
+  }
+  return new Blob(chunks, { type: mimeType });
+};
+
+const storeInCache = async (cache: Cache, files: CoreFile[], blobs: Blob[]) => {
+  try {
+    await Promise.all(files.map((file, i) =>
+      cache.put(file.url, new Response(blobs[i], {
+        headers: { 'Content-Type': file.mimeType, 'Content-Length': String(blobs[i].size) },
+      }))
+    ));
+    // Drop cores left behind by earlier builds or another base URL.
+    const wanted = new Set(files.map((file) => file.url));
+    for (const request of await cache.keys()) {
+      if (!wanted.has(request.url)) {
+        await cache.delete(request);
+      }
+    }
+  } catch (err) {
+    // A full quota only costs the next visit a download.
+    console.warn('Could not cache the FFmpeg core:', err);
+  }
+};
+
+const downloadCore = async (mode: CoreMode, onProgress?: CoreLoadProgressCallback): Promise<CoreURLs> => {
+  const files = getCoreFiles(mode);
+  const cache = await openCache(CACHE_NAMES[mode]);
+  const fetched = await Promise.all(files.map((file) => fetchCoreFile(file, cache)));
+  const fromCache = fetched.every((entry) => entry.fromCache);
+
+  const sizes = fetched.map((entry) => parseInt(entry.response.headers.get('Content-Length') ?? '', 10));
+  const total = sizes.every((size) => size > 0) ? sizes.reduce((sum, size) => sum + size, 0) : null;
+  const loaded = files.map(() => 0);
+
+  const blobs = await Promise.all(fetched.map((entry, i) =>
+    readBody(entry.response, files[i].mimeType, (bytes) => {
+      loaded[i] = bytes;
+      onProgress?.({ loaded: loaded.reduce((sum, value) => sum + value, 0), total, fromCache });
+    })
+  ));
+
+  if (cache && !fromCache) {
+    await storeInCache(cache, files, blobs);
+  }
+
+  const [coreURL, wasmURL, workerURL] = blobs.map((blob) => URL.createObjectURL(blob));
+  return { coreURL, wasmURL, workerURL };
+};
+
+let coreURLsPromise: Promise<CoreURLs> | null = null;
+
+/**
+ * Fetches the FFmpeg core for the current mode, from Cache Storage when a
+ * previous visit stored it, and returns blob URLs for `FFmpeg.load`. The URLs
+ * live for the whole page: the multi-threaded core spawns its thread workers
+ * from them long after loading, and reloads after a cancel reuse them.
+ */
+export const loadCoreURLs = (onProgress?: CoreLoadProgressCallback): Promise<CoreURLs> => {
+  if (!coreURLsPromise) {
+    coreURLsPromise = downloadCore(getCoreMode(), onProgress).catch((err) => {
+      coreURLsPromise = null;
+      throw err;
+    });
+  }
+  return coreURLsPromise;
+};
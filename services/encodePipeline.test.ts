@@ -0,0 +1,314 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AnimationEncodeJob,
+  AnimationSettings,
+  buildAnimationArgs,
+  buildVideoEncodeArgs,
+  EncodeRunner,
+  getCorrectedBitrate,
+  getVideoBitrates,
+  runAnimationEncode,
+  runVideoEncode,
+  trimInputArgs,
+  VideoEncodeJob,
+  VideoEncodeSettings,
+} from './encodePipeline';
+
+const MB = 1024 * 1024;
+
+const videoSettings = (overrides: Partial<VideoEncodeSettings> = {}): VideoEncodeSettings => ({
+  outputFormat: 'h264',
+  rateControl: 'target',
+  crf: 23,
+  resolution: 720,
+  removeAudio: false,
+  targetSizeMB: 8,
+  twoPass: false,
+  aspectRatio: 'original',
+  reframeMode: 'crop',
+  padColor: '#000000',
+  cropOffset: 0.5,
+  rotate: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  audioStreamIndex: null,
+  audioBitrate: 128,
+  audioChannels: 'stereo',
+  normalizeLoudness: false,
+  fadeAudio: false,
+  ...overrides,
+});
+
+const videoJob = (overrides: Partial<VideoEncodeSettings> = {}, job: Partial<VideoEncodeJob> = {}): VideoEncodeJob => ({
+  inputArgs: trimInputArgs('input.mp4', 0, null),
+  output: 'output.mp4',
+  clipStart: 0,
+  duration: 60,
+  settings: videoSettings(overrides),
+  fades: { fadeIn: false, fadeOut: false },
+  overlay: null,
+  subtitles: null,
+  threads: null,
+  passLogPrefix: 'ffmpeg2pass',
+  ...job,
+});
+
+const animationSettings = (overrides: Partial<AnimationSettings> = {}): AnimationSettings => ({
+  format: 'gif',
+  resolution: 480,
+  fps: 15,
+  startTime: '',
+  endTime: '',
+  loop: 0,
+  pingPong: false,
+  speed: 1,
+  webpQuality: 75,
+  webpLossless: false,
+  targetSizeMB: null,
+  rotate: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  ...overrides,
+});
+
+const animationJob = (overrides: Partial<AnimationSettings> = {}): AnimationEncodeJob => ({
+  input: 'input.mp4',
+  palette: 'palette.png',
+  output: 'output.gif',
+  settings: animationSettings(overrides),
+  overlay: null,
+});
+
+// The value following `flag`, or undefined when the flag is missing.
+const argAfter = (args: string[], flag: string) => {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+/** A runner that records every command and answers each read with the next size. */
+const fakeRunner = (sizes: number[]) => {
+  const commands: string[][] = [];
+  let reads = 0;
+  const runner: EncodeRunner<{ byteLength: number }> = {
+    exec: async (args, onProgress) => {
+      commands.push(args);
+      onProgress(0.5);
+      onProgress(1.2);
+    },
+    readOutput: async () => ({ byteLength: sizes[Math.min(reads++, sizes.length - 1)] }),
+  };
+  return { runner, commands };
+};
+
+describe('trimInputArgs', () => {
+  it('reads the whole input without a seek or a length', () => {
+    expect(trimInputArgs('in.mp4', 0, null)).toEqual(['-i', 'in.mp4']);
+  });
+
+  it('puts the seek and length before the input', () => {
+    expect(trimInputArgs('in.mp4', 12.5, 30)).toEqual(['-ss', '12.500', '-t', '30.000', '-i', 'in.mp4']);
+  });
+});
+
+describe('getVideoBitrates', () => {
+  it('gives video whatever the audio leaves', () => {
+    // 8 MB over 64 s is 1024 kbit/s in total.
+    expect(getVideoBitrates(8, 64, 128)).toEqual({ audioBitrate: 128, videoBitrate: 896 });
+  });
+
+  it('throws when the audio alone fills the target', () => {
+    expect(() => getVideoBitrates(1, 600, 128)).toThrow(/too small/);
+  });
+});
+
+describe('getCorrectedBitrate', () => {
+  it('keeps an output within the tolerance', () => {
+    expect(getCorrectedBitrate(1000, 8.1 * MB, 8, 128, 60)).toBeNull();
+  });
+
+  it('scales only the video part of an overshoot', () => {
+    const corrected = getCorrectedBitrate(1000, 10 * MB, 8, 0, 60);
+    expect(corrected).toBeCloseTo(1000 * (8 * 0.95) / 10);
+  });
+
+  it('gives up when the audio leaves no room', () => {
+    expect(getCorrectedBitrate(1000, 10 * MB, 1, 1024, 60)).toBeNull();
+  });
+});
+
+describe('buildVideoEncodeArgs', () => {
+  it('builds a single-pass target-size encode', () => {
+    const args = buildVideoEncodeArgs(videoJob(), 896, 'single');
+    expect(args.slice(0, 3)).toEqual(['-y', '-i', 'input.mp4']);
+    expect(argAfter(args, '-vf')).toBe("scale=w='if(gte(iw,ih),-2,720)':h='if(gte(iw,ih),720,-2)'");
+    expect(argAfter(args, '-c:v')).toBe('libx264');
+    expect(argAfter(args, '-b:v')).toBe('896k');
+    expect(argAfter(args, '-c:a')).toBe('aac');
+    expect(argAfter(args, '-b:a')).toBe('128k');
+    expect(args).not.toContain('-map');
+    expect(args.at(-1)).toBe('output.mp4');
+  });
+
+  it('writes only statistics in the analysis pass', () => {
+    const args = buildVideoEncodeArgs(videoJob({ twoPass: true }), 896, 'analysis');
+    expect(argAfter(args, '-pass')).toBe('1');
+    expect(argAfter(args, '-passlogfile')).toBe('ffmpeg2pass');
+    expect(args.slice(-5)).toEqual(['-an', '-sn', '-f', 'null', '-']);
+  });
+
+  it('passes x265 its own pass parameters', () => {
+    const args = buildVideoEncodeArgs(videoJob({ outputFormat: 'hevc', twoPass: true }), 896, 'final');
+    expect(argAfter(args, '-x265-params')).toBe('pass=2:stats=ffmpeg2pass-0.log');
+    expect(args).not.toContain('-pass');
+  });
+
+  it('turns and mirrors the frame before scaling', () => {
+    const args = buildVideoEncodeArgs(videoJob({ rotate: 90, flipHorizontal: true }), 896, 'single');
+    expect(argAfter(args, '-vf')).toMatch(/^transpose=clock,hflip,scale=/);
+  });
+
+  it('uses pure CRF with a zero bitrate for VP9', () => {
+    const args = buildVideoEncodeArgs(videoJob({ outputFormat: 'vp9', rateControl: 'crf', crf: 31 }), 0, 'single');
+    expect(argAfter(args, '-crf')).toBe('31');
+    expect(argAfter(args, '-b:v')).toBe('0');
+    expect(argAfter(args, '-c:a')).toBe('libopus');
+  });
+
+  it('caps x264 CRF with maxrate and bufsize', () => {
+    const args = buildVideoEncodeArgs(videoJob({ rateControl: 'capped' }), 1000, 'single');
+    expect(argAfter(args, '-maxrate')).toBe('1000k');
+    expect(argAfter(args, '-bufsize')).toBe('2000k');
+  });
+
+  it('maps streams by hand for a picked audio track', () => {
+    const args = buildVideoEncodeArgs(videoJob({ audioStreamIndex: 3 }), 896, 'single');
+    expect(args.filter((arg, i) => args[i - 1] === '-map')).toEqual(['0:V:0', '0:3']);
+  });
+
+  it('drops the audio track when asked to', () => {
+    const args = buildVideoEncodeArgs(videoJob({ removeAudio: true }), 896, 'single');
+    expect(args).toContain('-an');
+    expect(args).not.toContain('-c:a');
+  });
+
+  it('burns an overlay through a filter graph', () => {
+    const overlay = { file: 'overlay.png', placement: { position: 'top-left' as const, size: 0.2, opacity: 0.8, startTime: '', endTime: '' } };
+    const args = buildVideoEncodeArgs(videoJob({}, { overlay }), 896, 'single');
+    expect(args).not.toContain('-vf');
+    expect(argAfter(args, '-filter_complex')).toContain('[main][wm]overlay=');
+    expect(args.filter((arg, i) => args[i - 1] === '-i')).toEqual(['input.mp4', 'overlay.png']);
+    expect(argAfter(args, '-map')).toBe('[vout]');
+  });
+});
+
+describe('runVideoEncode', () => {
+  it('encodes once when the output fits', async () => {
+    const { runner, commands } = fakeRunner([7.5 * MB]);
+    const progress: number[] = [];
+    const output = await runVideoEncode(runner, videoJob(), ({ percentage }) => progress.push(percentage));
+    expect(output.byteLength).toBe(7.5 * MB);
+    expect(commands).toHaveLength(1);
+    expect(progress.at(-1)).toBe(100);
+    expect(Math.max(...progress)).toBe(100);
+  });
+
+  it('re-encodes once with a lower bitrate after an overshoot', async () => {
+    const { runner, commands } = fakeRunner([10 * MB, 7.6 * MB]);
+    const output = await runVideoEncode(runner, videoJob(), () => {});
+    expect(output.byteLength).toBe(7.6 * MB);
+    expect(commands).toHaveLength(2);
+    const first = parseInt(argAfter(commands[0], '-b:v')!, 10);
+    const second = parseInt(argAfter(commands[1], '-b:v')!, 10);
+    expect(second).toBeLessThan(first);
+  });
+
+  it('runs an analysis pass first for two-pass encodes', async () => {
+    const { runner, commands } = fakeRunner([7 * MB]);
+    await runVideoEncode(runner, videoJob({ twoPass: true }), () => {});
+    expect(commands.map((args) => argAfter(args, '-pass'))).toEqual(['1', '2']);
+  });
+
+  it('never corrects a pure CRF encode', async () => {
+    const { runner, commands } = fakeRunner([50 * MB]);
+    await runVideoEncode(runner, videoJob({ rateControl: 'crf' }), () => {});
+    expect(commands).toHaveLength(1);
+  });
+
+  it('fails before running anything when the target is too small', async () => {
+    const { runner, commands } = fakeRunner([MB]);
+    await expect(runVideoEncode(runner, videoJob({ targetSizeMB: 0.1 }, { duration: 600 }), () => {})).rejects.toThrow(/too small/);
+    expect(commands).toHaveLength(0);
+  });
+});
+
+describe('buildAnimationArgs', () => {
+  it('generates a palette for GIF and maps the frames onto it', () => {
+    const { palette, encode } = buildAnimationArgs(animationJob({ startTime: '5', endTime: '8' }));
+    expect(palette).not.toBeNull();
+    expect(argAfter(palette!, '-filter_complex')).toBe('[0:V:0]fps=15,scale=480:-1:flags=lanczos,palettegen');
+    expect(palette!.at(-1)).toBe('palette.png');
+    expect(encode.slice(0, 7)).toEqual(['-y', '-ss', '5.000', '-t', '3.000', '-i', 'input.mp4']);
+    expect(argAfter(encode, '-filter_complex')).toBe('[0:V:0]fps=15,scale=480:-1:flags=lanczos[x];[x][1:v]paletteuse');
+    expect(argAfter(encode, '-loop')).toBe('0');
+  });
+
+  it('counts GIF repeats after the first play', () => {
+    expect(argAfter(buildAnimationArgs(animationJob({ loop: 1 })).encode, '-loop')).toBe('-1');
+    expect(argAfter(buildAnimationArgs(animationJob({ loop: 3 })).encode, '-loop')).toBe('2');
+  });
+
+  it('encodes WebP in one command with the chosen quality', () => {
+    const { palette, encode } = buildAnimationArgs(animationJob({ format: 'webp', webpQuality: 60, loop: 2 }));
+    expect(palette).toBeNull();
+    expect(argAfter(encode, '-c:v')).toBe('libwebp_anim');
+    expect(argAfter(encode, '-quality')).toBe('60');
+    expect(argAfter(encode, '-loop')).toBe('2');
+    expect(encode).not.toContain('-lossless');
+  });
+
+  it('encodes lossless WebP without a quality', () => {
+    const { encode } = buildAnimationArgs(animationJob({ format: 'webp', webpLossless: true }));
+    expect(argAfter(encode, '-lossless')).toBe('1');
+    expect(encode).not.toContain('-quality');
+  });
+
+  it('writes APNG with its play count', () => {
+    const { encode } = buildAnimationArgs(animationJob({ format: 'apng', loop: 3 }));
+    expect(argAfter(encode, '-plays')).toBe('3');
+    expect(argAfter(encode, '-f')).toBe('apng');
+  });
+
+  it('changes the speed before sampling frames and reverses for boomerang', () => {
+    const { encode } = buildAnimationArgs(animationJob({ format: 'webp', speed: 2, pingPong: true, rotate: 270 }));
+    expect(argAfter(encode, '-filter_complex')).toBe(
+      '[0:V:0]setpts=PTS/2,fps=15,transpose=cclock,scale=480:-1:flags=lanczos'
+      + ',split[forward][backward];[backward]reverse[reversed];[forward][reversed]concat=n=2:v=1:a=0'
+    );
+  });
+});
+
+describe('runAnimationEncode', () => {
+  it('keeps the first result without a size limit', async () => {
+    const { runner, commands } = fakeRunner([20 * MB]);
+    const { output, settings } = await runAnimationEncode(runner, animationJob(), () => {});
+    expect(output.byteLength).toBe(20 * MB);
+    expect(settings.fps).toBe(15);
+    expect(commands).toHaveLength(2); // palette and encode
+  });
+
+  it('lowers the frame rate and width until the file fits', async () => {
+    const { runner, commands } = fakeRunner([8 * MB, 1.9 * MB]);
+    const { output, settings } = await runAnimationEncode(runner, animationJob({ format: 'webp', targetSizeMB: 2 }), () => {});
+    expect(output.byteLength).toBe(1.9 * MB);
+    expect(commands).toHaveLength(2);
+    expect(settings.fps).toBeLessThan(15);
+    expect(settings.resolution).toBeLessThan(480);
+    expect(argAfter(commands[1], '-filter_complex')).toContain(`fps=${settings.fps}`);
+  });
+
+  it('gives up with a clear error once nothing is left to lower', async () => {
+    const { runner } = fakeRunner([50 * MB]);
+    await expect(runAnimationEncode(runner, animationJob({ format: 'webp', targetSizeMB: 1 }), () => {}))
+      .rejects.toThrow(/over the 1 MB limit/);
+  });
+});
@@ -0,0 +1,859 @@
+import { formatBytes } from '../utils/format';
+import { parseTimestamp } from '../utils/time';
+
+// Everything here is plain data and string building: no DOM, no wasm and no
+// Node APIs, so the browser service and the `vidwa` CLI share one pipeline.
+// Running a command is left to an EncodeRunner supplied by the caller.
+
+export type AspectRatio = 'original' | '9:16' | '1:1' | '4:5';
+export type ReframeMode = 'crop' | 'blur' | 'color';
+
+export interface ReframeSettings {
+  aspectRatio: AspectRatio;
+  reframeMode: ReframeMode;
+  padColor: string; // '#rrggbb'
+  // Position of the crop window along the axis that has spare room: 0 = left/top, 1 = right/bottom.
+  cropOffset: number;
+}
+
+// Clockwise quarter turns on top of the source's own rotation.
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface OrientationSettings {
+  rotate: Rotation;
+  flipHorizontal: boolean; // mirrors left and right
+  flipVertical: boolean; // mirrors top and bottom
+}
+
+export type OutputFormat = 'h264' | 'hevc' | 'vp9' | 'av1';
+
+export interface OutputFormatInfo {
+  label: string;
+  encoder: string;
+  audioEncoder: string;
+  extension: string;
+  mimeType: string;
+  encoderArgs: string[];
+  containerArgs: string[];
+  subtitleCodec: string; // for soft subtitle tracks
+  crf: { min: number; max: number; default: number };
+  // libvpx and libaom read -b:v as the ceiling in CRF mode and need -b:v 0 for pure CRF.
+  crfUsesBitrateCap: boolean;
+  // Rough bits per pixel at the default CRF, and how many CRF steps halve the bitrate.
+  // Only used for the pre-encode size estimate.
+  bitsPerPixel: number;
+  crfHalvingStep: number;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  h264: {
+    label: 'H.264 / MP4',
+    encoder: 'libx264',
+    audioEncoder: 'aac',
+    extension: 'mp4',
+    mimeType: 'video/mp4',
+    encoderArgs: ['-preset', 'medium'],
+    containerArgs: ['-movflags', '+faststart'],
+    subtitleCodec: 'mov_text',
+    crf: { min: 16, max: 36, default: 23 },
+    crfUsesBitrateCap: false,
+    bitsPerPixel: 0.08,
+    crfHalvingStep: 6,
+  },
+  hevc: {
+    label: 'HEVC / MP4',
+    encoder: 'libx265',
+    audioEncoder: 'aac',
+    extension: 'mp4',
+    mimeType: 'video/mp4',
+    // hvc1 is the tag Apple players require to recognise HEVC in MP4.
+    encoderArgs: ['-preset', 'medium', '-tag:v', 'hvc1'],
+    containerArgs: ['-movflags', '+faststart'],
+    subtitleCodec: 'mov_text',
+    crf: { min: 18, max: 38, default: 28 },
+    crfUsesBitrateCap: false,
+    bitsPerPixel: 0.05,
+    crfHalvingStep: 6,
+  },
+  vp9: {
+    label: 'VP9 / WebM',
+    encoder: 'libvpx-vp9',
+    audioEncoder: 'libopus',
+    extension: 'webm',
+    mimeType: 'video/webm',
+    encoderArgs: ['-deadline', 'good', '-cpu-used', '4', '-row-mt', '1'],
+    containerArgs: [],
+    subtitleCodec: 'webvtt',
+    crf: { min: 15, max: 50, default: 31 },
+    crfUsesBitrateCap: true,
+    bitsPerPixel: 0.05,
+    crfHalvingStep: 8,
+  },
+  av1: {
+    label: 'AV1 / WebM',
+    encoder: 'libaom-av1',
+    audioEncoder: 'libopus',
+    extension: 'webm',
+    mimeType: 'video/webm',
+    encoderArgs: ['-cpu-used', '8', '-row-mt', '1'],
+    containerArgs: [],
+    subtitleCodec: 'webvtt',
+    crf: { min: 20, max: 55, default: 32 },
+    crfUsesBitrateCap: true,
+    bitsPerPixel: 0.04,
+    crfHalvingStep: 8,
+  },
+};
+
+// 'target' aims for targetSizeMB, 'crf' encodes at constant quality with no size
+// goal, and 'capped' is constant quality that never exceeds targetSizeMB.
+export type RateControl = 'target' | 'crf' | 'capped';
+
+export type AudioChannels = 'mono' | 'stereo';
+
+export const AUDIO_BITRATES = [64, 96, 128, 192]; // kbit/s
+
+export interface AudioSettings {
+  // Stream index as reported by the probe; null keeps FFmpeg's default pick.
+  audioStreamIndex: number | null;
+  audioBitrate: number; // kbit/s
+  audioChannels: AudioChannels;
+  normalizeLoudness: boolean;
+  fadeAudio: boolean;
+}
+
+export interface AudioFades {
+  fadeIn: boolean;
+  fadeOut: boolean;
+}
+
+export type OverlayPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface OverlayPlacement {
+  position: OverlayPosition;
+  size: number; // overlay width as a fraction of the output width
+  opacity: number; // 0..1
+  // Source timestamps like the trim inputs; empty means the whole clip.
+  startTime: string;
+  endTime: string;
+}
+
+export type SubtitleMode = 'burn' | 'soft';
+export type SubtitleFont = 'sans' | 'serif' | 'mono';
+export type SubtitleSize = 'small' | 'medium' | 'large';
+export type SubtitlePosition = 'bottom' | 'top';
+
+export interface SubtitleStyle {
+  mode: SubtitleMode;
+  font: SubtitleFont;
+  size: SubtitleSize;
+  position: SubtitlePosition;
+}
+
+export const SUBTITLE_FONTS: Record<SubtitleFont, { label: string; family: string }> = {
+  sans: { label: 'Sans', family: 'DejaVu Sans' },
+  serif: { label: 'Serif', family: 'DejaVu Serif' },
+  mono: { label: 'Monospace', family: 'DejaVu Sans Mono' },
+};
+
+export interface VideoEncodeSettings extends ReframeSettings, OrientationSettings, AudioSettings {
+  outputFormat: OutputFormat;
+  rateControl: RateControl;
+  crf: number;
+  resolution: number;
+  removeAudio: boolean;
+  targetSizeMB: number;
+  twoPass: boolean;
+}
+
+export interface VideoSegment {
+  start: number; // seconds
+  duration: number; // seconds
+}
+
+export type ProgressCallback = (progress: { percentage: number; step?: string }) => void;
+
+export const ASPECT_RATIOS: Record<Exclude<AspectRatio, 'original'>, number> = {
+  '9:16': 9 / 16,
+  '1:1': 1,
+  '4:5': 4 / 5,
+};
+
+const toEven = (value: number) => Math.round(value / 2) * 2;
+
+/**
+ * Returns the output frame size for a reframed encode. `resolution` is the
+ * width, which is the short side for every supported ratio.
+ */
+export const getReframeSize = (aspectRatio: Exclude<AspectRatio, 'original'>, resolution: number) => ({
+  width: toEven(resolution),
+  height: toEven(resolution / ASPECT_RATIOS[aspectRatio]),
+});
+
+const ROTATION_FILTERS: Record<Rotation, string[]> = {
+  0: [],
+  90: ['transpose=clock'],
+  180: ['hflip', 'vflip'],
+  270: ['transpose=cclock'],
+};
+
+/**
+ * The filters that turn and mirror the frame, rotation first, so a flip is
+ * seen as it would be in the turned frame. FFmpeg has already stood the
+ * frames upright from the source's rotation metadata by then, so a rotation
+ * here is only ever the user's own.
+ */
+const orientationFilters = (orientation: OrientationSettings): string[] => [
+  ...ROTATION_FILTERS[orientation.rotate],
+  ...(orientation.flipHorizontal ? ['hflip'] : []),
+  ...(orientation.flipVertical ? ['vflip'] : []),
+];
+
+/** The frame size after turning a `width` × `height` frame by `rotation` degrees. */
+export const getRotatedSize = (width: number, height: number, rotation: number) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * Scales the short side to `resolution`, so portrait clips are sized like
+ * landscape ones. The expressions are quoted because they contain commas.
+ */
+const shortSideScale = (resolution: number) =>
+  `scale=w='if(gte(iw,ih),-2,${resolution})':h='if(gte(iw,ih),${resolution},-2)'`;
+
+/**
+ * Builds the `-vf` graph for the encode: the orientation filters, then the
+ * short-side scale or, when reframing, a crop or pad to the target ratio.
+ */
+export const buildVideoFilter = (resolution: number, settings: ReframeSettings & OrientationSettings): string => {
+  const orientation = orientationFilters(settings).map((filter) => `${filter},`).join('');
+  return `${orientation}${buildFrameFilter(resolution, settings)}`;
+};
+
+const buildFrameFilter = (resolution: number, reframe: ReframeSettings): string => {
+  if (reframe.aspectRatio === 'original') {
+    return shortSideScale(resolution);
+  }
+  const { width, height } = getReframeSize(reframe.aspectRatio, resolution);
+  const cover = `scale=${width}:${height}:force_original_aspect_ratio=increase`;
+  const contain = `scale=${width}:${height}:force_original_aspect_ratio=decrease:force_divisible_by=2`;
+
+  if (reframe.reframeMode === 'crop') {
+    const offset = Math.min(Math.max(reframe.cropOffset, 0), 1).toFixed(3);
+    return `${cover},crop=${width}:${height}:(iw-ow)*${offset}:(ih-oh)*${offset},setsar=1`;
+  }
+  if (reframe.reframeMode === 'blur') {
+    return [
+      `split[bg][fg]`,
+      `[bg]${cover},crop=${width}:${height},boxblur=20:2[blurred]`,
+      `[fg]${contain}[front]`,
+      `[blurred][front]overlay=(W-w)/2:(H-h)/2,setsar=1`,
+    ].join(';');
+  }
+  const color = reframe.padColor.replace('#', '0x');
+  return `${contain},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${color},setsar=1`;
+};
+
+const OVERLAY_MARGIN = 0.03; // of the output width, on every side
+
+const OVERLAY_COORDINATES: Record<OverlayPosition, { x: string; y: string }> = {
+  'top-left': { x: `W*${OVERLAY_MARGIN}`, y: `W*${OVERLAY_MARGIN}` },
+  'top-right': { x: `W-w-W*${OVERLAY_MARGIN}`, y: `W*${OVERLAY_MARGIN}` },
+  'bottom-left': { x: `W*${OVERLAY_MARGIN}`, y: `H-h-W*${OVERLAY_MARGIN}` },
+  'bottom-right': { x: `W-w-W*${OVERLAY_MARGIN}`, y: `H-h-W*${OVERLAY_MARGIN}` },
+  center: { x: '(W-w)/2', y: '(H-h)/2' },
+};
+
+/**
+ * Converts the overlay's source-time range into an `enable` option for the
+ * encoded clip, whose timestamps start at zero at `clipStart`.
+ */
+const overlayEnableOption = (overlay: OverlayPlacement, clipStart: number): string => {
+  if (!overlay.startTime.trim() && !overlay.endTime.trim()) {
+    return '';
+  }
+  const start = overlay.startTime.trim() ? parseTimestamp(overlay.startTime) : clipStart;
+  const end = overlay.endTime.trim() ? parseTimestamp(overlay.endTime) : Infinity;
+  if (start === null || end === null || start >= end) {
+    throw new Error('Invalid watermark time range. Use a time like 75, 1:15 or 00:01:15.5, with the start before the end.');
+  }
+  const from = Math.max(start - clipStart, 0).toFixed(3);
+  return end === Infinity
+    ? `:enable='gte(t,${from})'`
+    : `:enable='between(t,${from},${(end - clipStart).toFixed(3)})'`;
+};
+
+/**
+ * Wraps a video filter chain into a filter_complex graph that burns the
+ * overlay image (input `overlayInput`) on top of its output. The overlay is
+ * sized against the filtered frame, so it follows resolution and reframing.
+ */
+export const buildOverlayGraph = (
+  videoFilter: string,
+  overlayInput: number,
+  overlay: OverlayPlacement,
+  clipStart: number,
+  outputLabel: string
+): string => {
+  const { x, y } = OVERLAY_COORDINATES[overlay.position];
+  const opacity = Math.min(Math.max(overlay.opacity, 0), 1).toFixed(2);
+  const size = Math.min(Math.max(overlay.size, 0.01), 1).toFixed(3);
+  return [
+    `[0:V:0]${videoFilter}[base]`,
+    `[${overlayInput}:v]format=rgba,colorchannelmixer=aa=${opacity}[logo]`,
+    `[logo][base]scale2ref=w=main_w*${size}:h=ow*ih/iw[wm][main]`,
+    `[main][wm]overlay=x=${x}:y=${y}${overlayEnableOption(overlay, clipStart)}${outputLabel}`,
+  ].join(';');
+};
+
+// ASS font sizes are relative to a 288-line canvas, so they scale with the output resolution.
+const SUBTITLE_FONT_SIZES: Record<SubtitleSize, number> = { small: 14, medium: 18, large: 24 };
+// ASS numpad alignment: 2 is bottom center, 8 is top center.
+const SUBTITLE_ALIGNMENT: Record<SubtitlePosition, number> = { bottom: 2, top: 8 };
+
+/**
+ * The libass `subtitles` filter for burning `filename` in. Without a
+ * `fontsDir` libass falls back to the fonts fontconfig knows about.
+ */
+const buildSubtitleFilter = (filename: string, style: SubtitleStyle, fontsDir: string | null): string => {
+  const forceStyle = [
+    `FontName=${SUBTITLE_FONTS[style.font].family}`,
+    `FontSize=${SUBTITLE_FONT_SIZES[style.size]}`,
+    `Alignment=${SUBTITLE_ALIGNMENT[style.position]}`,
+    'Bold=1',
+    'BorderStyle=1',
+    'Outline=1.5',
+    'Shadow=0',
+    'MarginV=16',
+  ].join(',');
+  const fontsOption = fontsDir ? `:fontsdir=${fontsDir}` : '';
+  return `subtitles=${filename}${fontsOption}:force_style='${forceStyle}'`;
+};
+
+// Prefix for the stats log written during the analysis pass. FFmpeg appends
+// "-0.log" to it; x264 and x265 add ".mbtree"/".cutree" files.
+export const PASS_LOG_PREFIX = 'ffmpeg2pass';
+
+// libx265 takes its pass settings through -x265-params rather than FFmpeg's -pass.
+const passArgs = (format: OutputFormat, pass: 1 | 2, prefix: string): string[] =>
+  format === 'hevc'
+    ? ['-x265-params', `pass=${pass}:stats=${prefix}-0.log`]
+    : ['-pass', String(pass), '-passlogfile', prefix];
+// Tolerated overshoot before the output is re-encoded with a corrected bitrate.
+const SIZE_TOLERANCE = 1.02;
+// Aim slightly below the target on correction so the retry lands under it.
+const CORRECTION_MARGIN = 0.95;
+// Trailing slivers shorter than this are not worth a separate segment.
+const MIN_SEGMENT_DURATION = 0.1;
+
+/**
+ * Cuts the range [start, end) into consecutive segments of at most
+ * `segmentLength` seconds. The last segment holds whatever remains.
+ */
+export const getSegments = (start: number, end: number, segmentLength: number): VideoSegment[] => {
+  const segments: VideoSegment[] = [];
+  for (let segmentStart = start; end - segmentStart > MIN_SEGMENT_DURATION; segmentStart += segmentLength) {
+    segments.push({ start: segmentStart, duration: Math.min(segmentLength, end - segmentStart) });
+  }
+  return segments;
+};
+
+/**
+ * Builds the input side of a command: a fast input seek to `start` and, when
+ * given, a length limit. Both are input options so they keep applying to this
+ * input even when more inputs follow (e.g. the GIF palette). `-t` is used
+ * instead of `-to` because timestamps restart at zero after an input seek.
+ */
+export const trimInputArgs = (inputFilename: string, start: number, clipDuration: number | null): string[] => {
+  const args: string[] = [];
+  if (start > 0) {
+    args.push('-ss', start.toFixed(3));
+  }
+  if (clipDuration !== null) {
+    args.push('-t', clipDuration.toFixed(3));
+  }
+  args.push('-i', inputFilename);
+  return args;
+};
+
+/**
+ * Splits a size target over the clip: whatever the audio track does not use
+ * goes to video. Throws when the audio alone already fills the target.
+ */
+export const getVideoBitrates = (targetSizeMB: number, duration: number, audioBitrate: number) => {
+  const totalBitrate = (targetSizeMB * 1024 * 8) / duration; // in kbit/s
+  const videoBitrate = totalBitrate - audioBitrate;
+
+  if (videoBitrate <= 0) {
+    throw new Error(`Target size is too small for the video duration. Try increasing the target size.`);
+  }
+  return { audioBitrate, videoBitrate };
+};
+
+/**
+ * The video bitrate for a retry after an encode came out `outputBytes` big,
+ * or null when it already fits. Only the video part is scaled; the audio
+ * bitrate is fixed and already accounted for.
+ */
+export const getCorrectedBitrate = (
+  videoBitrate: number,
+  outputBytes: number,
+  targetSizeMB: number,
+  audioBitrate: number,
+  duration: number
+): number | null => {
+  const targetBytes = targetSizeMB * 1024 * 1024;
+  if (outputBytes <= targetBytes * SIZE_TOLERANCE) {
+    return null;
+  }
+  const audioBytes = (audioBitrate * 1024 / 8) * duration;
+  const actualVideoBytes = Math.max(outputBytes - audioBytes, 1);
+  const allowedVideoBytes = targetBytes * CORRECTION_MARGIN - audioBytes;
+  const correctedBitrate = videoBitrate * (allowedVideoBytes / actualVideoBytes);
+  return correctedBitrate > 0 ? correctedBitrate : null;
+};
+
+// EBU R128 targets suited to phone speakers and social apps.
+const LOUDNORM_FILTER = 'loudnorm=I=-16:TP=-1.5:LRA=11';
+const MAX_FADE_DURATION = 1; // seconds
+
+// The chosen audio stream, or the first one if the source has any. Video is
+// mapped as 0:V, which skips cover art that FFmpeg also lists as a video stream.
+export const audioMapSpec = (settings: AudioSettings): string =>
+  settings.audioStreamIndex === null ? '0:a:0?' : `0:${settings.audioStreamIndex}`;
+
+/**
+ * Encoder options and filters for the audio track. Fades are placed relative
+ * to the encoded clip, whose timestamps start at zero after the input seek.
+ */
+export const audioEncodeArgs = (settings: AudioSettings, encoder: string, clipDuration: number, fades: AudioFades): string[] => {
+  const filters: string[] = [];
+  if (settings.normalizeLoudness) {
+    // loudnorm upsamples to 192 kHz internally; bring it back to a rate every encoder accepts.
+    filters.push(LOUDNORM_FILTER, 'aresample=48000');
+  }
+  const fadeDuration = Math.min(MAX_FADE_DURATION, clipDuration / 4);
+  if (fades.fadeIn && fadeDuration > 0) {
+    filters.push(`afade=t=in:st=0:d=${fadeDuration.toFixed(3)}`);
+  }
+  if (fades.fadeOut && fadeDuration > 0) {
+    filters.push(`afade=t=out:st=${(clipDuration - fadeDuration).toFixed(3)}:d=${fadeDuration.toFixed(3)}`);
+  }
+  return [
+    '-c:a', encoder,
+    '-b:a', `${settings.audioBitrate}k`,
+    '-ac', settings.audioChannels === 'mono' ? '1' : '2',
+    ...(filters.length > 0 ? ['-af', filters.join(',')] : []),
+  ];
+};
+
+/**
+ * Rate-control options for one encode. `bitrate` is the target in 'target'
+ * mode and the ceiling in 'capped' mode; it is ignored for pure CRF.
+ */
+const rateControlArgs = (settings: VideoEncodeSettings, bitrate: number): string[] => {
+  const format = OUTPUT_FORMATS[settings.outputFormat];
+  const kbps = `${Math.round(bitrate)}k`;
+  if (settings.rateControl === 'target') {
+    return ['-b:v', kbps];
+  }
+  const crfArgs = ['-crf', String(settings.crf)];
+  if (settings.rateControl === 'crf') {
+    return format.crfUsesBitrateCap ? [...crfArgs, '-b:v', '0'] : crfArgs;
+  }
+  return format.crfUsesBitrateCap
+    ? [...crfArgs, '-b:v', kbps]
+    : [...crfArgs, '-maxrate', kbps, '-bufsize', `${Math.round(bitrate * 2)}k`];
+};
+
+/**
+ * Rough output size in bytes before encoding. Target mode is exact by
+ * definition; CRF modes use a bits-per-pixel model that is only meant to give
+ * the user a ballpark, capped at the ceiling in 'capped' mode.
+ */
+export const estimateOutputSize = (
+  settings: VideoEncodeSettings,
+  output: { width: number; height: number; fps: number },
+  duration: number
+): number => {
+  const targetBytes = settings.targetSizeMB * 1024 * 1024;
+  if (settings.rateControl === 'target') {
+    return targetBytes;
+  }
+  const format = OUTPUT_FORMATS[settings.outputFormat];
+  const bitsPerPixel = format.bitsPerPixel * Math.pow(2, (format.crf.default - settings.crf) / format.crfHalvingStep);
+  const videoBits = bitsPerPixel * output.width * output.height * output.fps * duration;
+  const audioBits = (settings.removeAudio ? 0 : settings.audioBitrate * 1000) * duration;
+  const estimate = (videoBits + audioBits) / 8;
+  return settings.rateControl === 'capped' ? Math.min(estimate, targetBytes) : estimate;
+};
+
+export interface VideoEncodeJob {
+  // Seek/trim options together with `-i`, so the caller decides which range is read.
+  inputArgs: string[];
+  output: string;
+  clipStart: number; // on the source timeline, for overlay timing
+  duration: number; // of the encoded clip
+  settings: VideoEncodeSettings;
+  fades: AudioFades;
+  // Image burned on top of the frame; read as an extra input.
+  overlay: { file: string; placement: OverlayPlacement } | null;
+  // Cues already shifted onto the clip's timeline.
+  subtitles: { file: string; style: SubtitleStyle; fontsDir: string | null } | null;
+  threads: number | null; // null leaves the choice to FFmpeg
+  passLogPrefix: string;
+}
+
+type EncodePass = 'single' | 'analysis' | 'final';
+
+/**
+ * The full argument list for one pass of a video encode. 'analysis' is the
+ * first of two passes and writes only rate statistics; 'final' is the second.
+ */
+export const buildVideoEncodeArgs = (job: VideoEncodeJob, bitrate: number, pass: EncodePass): string[] => {
+  const { settings, overlay, subtitles } = job;
+  const format = OUTPUT_FORMATS[settings.outputFormat];
+
+  const scaledFilter = buildVideoFilter(settings.resolution, settings);
+  // Burned in after scaling, so the text is rendered at the output resolution.
+  const videoFilter = subtitles?.style.mode === 'burn'
+    ? `${scaledFilter},${buildSubtitleFilter(subtitles.file, subtitles.style, subtitles.fontsDir)}`
+    : scaledFilter;
+
+  // Extra inputs follow the source: the overlay image, then a soft subtitle track.
+  const softSubtitles = subtitles?.style.mode === 'soft' ? subtitles : null;
+  const extraInputArgs = [
+    ...(overlay ? ['-i', overlay.file] : []),
+    ...(softSubtitles ? ['-i', softSubtitles.file] : []),
+  ];
+  const subtitleInput = overlay ? 2 : 1;
+
+  // An overlay needs a second input, which only a filter_complex graph can take.
+  const filterArgs = overlay
+    ? ['-filter_complex', buildOverlayGraph(videoFilter, 1, overlay.placement, job.clipStart, '[vout]')]
+    : ['-vf', videoFilter];
+  // Any extra input or a picked audio track means every output stream has to be mapped by hand.
+  const mapArgs = overlay || softSubtitles || settings.audioStreamIndex !== null
+    ? [
+      '-map', overlay ? '[vout]' : '0:V:0',
+      '-map', audioMapSpec(settings),
+      ...(softSubtitles ? ['-map', `${subtitleInput}:0`] : []),
+    ]
+    : [];
+
+  const videoArgs = [
+    ...filterArgs,
+    ...mapArgs,
+    '-c:v', format.encoder,
+    ...rateControlArgs(settings, bitrate),
+    ...format.encoderArgs,
+    ...(job.threads !== null ? ['-threads', String(job.threads)] : []),
+  ];
+  const head = ['-y', ...job.inputArgs, ...extraInputArgs, ...videoArgs];
+
+  if (pass === 'analysis') {
+    // Pass 1 only gathers rate statistics, so audio, subtitles and the real output are skipped.
+    return [...head, ...passArgs(settings.outputFormat, 1, job.passLogPrefix), '-an', '-sn', '-f', 'null', '-'];
+  }
+  return [
+    ...head,
+    ...(pass === 'final' ? passArgs(settings.outputFormat, 2, job.passLogPrefix) : []),
+    ...(settings.removeAudio ? ['-an'] : audioEncodeArgs(settings, format.audioEncoder, job.duration, job.fades)),
+    ...(softSubtitles ? ['-c:s', format.subtitleCodec] : []),
+    ...format.containerArgs,
+    job.output,
+  ];
+};
+
+/**
+ * Runs FFmpeg commands for the pipeline. `exec` reports the progress of that
+ * one command from 0 to 1 and rejects if it could not run; `readOutput`
+ * returns the written file, of which only the size is inspected here.
+ */
+export interface EncodeRunner<T extends { byteLength: number }> {
+  exec: (args: string[], onProgress: (ratio: number) => void) => Promise<void>;
+  readOutput: (filename: string) => Promise<T>;
+}
+
+/**
+ * Encodes one clip following the selected rate control: an optional analysis
+ * pass, the encode itself and, when a size goal is overshot, one re-encode
+ * with a corrected bitrate. Progress is reported from 0 to 100 for this
+ * encode alone.
+ */
+export const runVideoEncode = async <T extends { byteLength: number }>(
+  runner: EncodeRunner<T>,
+  job: VideoEncodeJob,
+  onProgress: ProgressCallback
+): Promise<T> => {
+  const { settings, duration } = job;
+  // Two-pass only helps hit a bitrate; CRF modes decide the rate per frame.
+  const twoPass = settings.twoPass && settings.rateControl === 'target';
+  const audioBitrate = settings.removeAudio ? 0 : settings.audioBitrate;
+  const videoBitrate = settings.rateControl === 'crf'
+    ? 0
+    : getVideoBitrates(settings.targetSizeMB, duration, audioBitrate).videoBitrate;
+
+  // Each exec reports its own 0..1 progress; map it onto the slice of the
+  // overall bar that belongs to the pass currently running.
+  const runPass = async (args: string[], offset: number, span: number, step?: string) => {
+    onProgress({ percentage: Math.round(offset), step });
+    await runner.exec(args, (ratio) => {
+      // Progress can sometimes exceed 1, clamp it.
+      const passProgress = Math.min(Math.max(ratio, 0), 1);
+      onProgress({ percentage: Math.round(offset + passProgress * span), step });
+    });
+  };
+
+  const encode = async (bitrate: number, offset: number, span: number, step?: string) => {
+    await runPass(buildVideoEncodeArgs(job, bitrate, twoPass ? 'final' : 'single'), offset, span, step);
+    return runner.readOutput(job.output);
+  };
+
+  let output: T;
+  if (twoPass) {
+    await runPass(buildVideoEncodeArgs(job, videoBitrate, 'analysis'), 0, 45, 'Analyzing video (pass 1 of 2)...');
+    output = await encode(videoBitrate, 45, 45, 'Encoding video (pass 2 of 2)...');
+  } else {
+    output = await encode(videoBitrate, 0, 90);
+  }
+
+  if (settings.rateControl !== 'crf') {
+    const correctedBitrate = getCorrectedBitrate(videoBitrate, output.byteLength, settings.targetSizeMB, audioBitrate, duration);
+    if (correctedBitrate !== null) {
+      output = await encode(correctedBitrate, 90, 10, 'Output exceeded target size, re-encoding...');
+    }
+  }
+
+  onProgress({ percentage: 100 });
+  return output;
+};
+
+export type AnimationFormat = 'gif' | 'webp' | 'apng';
+
+interface AnimationFormatInfo {
+  label: string;
+  encoder: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, AnimationFormatInfo> = {
+  gif: { label: 'GIF', encoder: 'gif', extension: 'gif', mimeType: 'image/gif' },
+  webp: { label: 'WebP', encoder: 'libwebp_anim', extension: 'webp', mimeType: 'image/webp' },
+  // APNG keeps the .png extension so viewers without APNG support still show the first frame.
+  apng: { label: 'APNG', encoder: 'apng', extension: 'png', mimeType: 'image/apng' },
+};
+
+export interface AnimationSettings extends OrientationSettings {
+  format: AnimationFormat;
+  resolution: number; // width
+  fps: number;
+  startTime: string;
+  endTime: string;
+  loop: number; // how often the animation plays; 0 loops forever
+  pingPong: boolean; // plays forwards, then backwards
+  speed: number; // playback rate, e.g. 2 for twice as fast
+  webpQuality: number; // 0-100, ignored when lossless
+  webpLossless: boolean;
+  targetSizeMB: number | null; // null keeps the first result, however big
+}
+
+/**
+ * Resolves the animation trim inputs. Unlike video, an unparsable start falls
+ * back to the beginning and a missing end reads to the end of the source.
+ */
+export const getAnimationClip = (startTime: string, endTime: string): { start: number; duration: number | null } => {
+  const start = parseTimestamp(startTime) ?? 0;
+  const end = parseTimestamp(endTime);
+  if (end !== null && end <= start) {
+    throw new Error('Invalid trim range. Start time must be before the end time.');
+  }
+  return { start, duration: end !== null ? end - start : null };
+};
+
+/** How long the animation plays once, for a source clip of `clipDuration`. */
+export const getAnimationDuration = (clipDuration: number, settings: AnimationSettings): number =>
+  (clipDuration / settings.speed) * (settings.pingPong ? 2 : 1);
+
+export interface AnimationEncodeJob {
+  input: string;
+  palette: string; // only written for GIF
+  output: string;
+  settings: AnimationSettings;
+  overlay: { file: string; placement: OverlayPlacement } | null;
+}
+
+/**
+ * The frames of the animation as a filtergraph, ending in `outputLabel`, or
+ * open for one more filter when it is empty. The overlay goes on before the
+ * speed change so its timing stays on the source timeline.
+ */
+const buildAnimationFrames = (
+  settings: AnimationSettings,
+  overlay: AnimationEncodeJob['overlay'],
+  clipStart: number,
+  outputLabel: string
+): string => {
+  const timing = [...(settings.speed !== 1 ? [`setpts=PTS/${settings.speed}`] : []), `fps=${settings.fps}`].join(',');
+  const sized = [...orientationFilters(settings), `scale=${settings.resolution}:-1:flags=lanczos`].join(',');
+  // reverse holds every frame in memory, which is why it runs on the scaled frames.
+  const pingPong = settings.pingPong
+    ? ',split[forward][backward];[backward]reverse[reversed];[forward][reversed]concat=n=2:v=1:a=0'
+    : '';
+  const frames = overlay
+    ? `${buildOverlayGraph(sized, 1, overlay.placement, clipStart, '[marked]')};[marked]${timing}${pingPong}`
+    : `[0:V:0]${timing},${sized}${pingPong}`;
+  return `${frames}${outputLabel}`;
+};
+
+// GIF counts the repeats after the first play and uses -1 for none.
+const gifLoopCount = (loop: number) => (loop === 0 ? 0 : loop === 1 ? -1 : loop - 1);
+
+const animationCodecArgs = (settings: AnimationSettings): string[] => {
+  switch (settings.format) {
+    case 'gif':
+      return ['-loop', String(gifLoopCount(settings.loop))];
+    case 'webp':
+      return [
+        '-c:v', ANIMATION_FORMATS.webp.encoder,
+        ...(settings.webpLossless ? ['-lossless', '1'] : ['-quality', String(settings.webpQuality)]),
+        '-loop', String(settings.loop),
+      ];
+    case 'apng':
+      return ['-c:v', ANIMATION_FORMATS.apng.encoder, '-pred', 'mixed', '-plays', String(settings.loop), '-f', 'apng'];
+  }
+};
+
+/**
+ * The commands of one animation encode. GIF first generates a palette for the
+ * clip and then maps the frames onto it; WebP and APNG take a single command.
+ */
+export const buildAnimationArgs = (job: AnimationEncodeJob): { palette: string[] | null; encode: string[] } => {
+  const { settings, overlay } = job;
+  const clip = getAnimationClip(settings.startTime, settings.endTime);
+  const head = ['-y', ...trimInputArgs(job.input, clip.start, clip.duration), ...(overlay ? ['-i', overlay.file] : [])];
+
+  if (settings.format !== 'gif') {
+    return {
+      palette: null,
+      encode: [...head, '-filter_complex', buildAnimationFrames(settings, overlay, clip.start, ''), '-an', ...animationCodecArgs(settings), job.output],
+    };
+  }
+
+  // The palette input comes after the optional overlay input, and the
+  // overlay's colors have to be in the palette too.
+  const paletteInput = overlay ? 2 : 1;
+  return {
+    palette: [...head, '-filter_complex', `${buildAnimationFrames(settings, overlay, clip.start, '')},palettegen`, job.palette],
+    encode: [
+      ...head, '-i', job.palette,
+      '-filter_complex', `${buildAnimationFrames(settings, overlay, clip.start, '[x]')};[x][${paletteInput}:v]paletteuse`,
+      ...animationCodecArgs(settings),
+      job.output,
+    ],
+  };
+};
+
+const MIN_ANIMATION_FPS = 5;
+const MIN_ANIMATION_WIDTH = 120;
+const MAX_ANIMATION_ATTEMPTS = 6;
+
+/**
+ * Lower frame rate and width for another attempt after an animation came out
+ * `outputBytes` big, or null when both are already at their minimum. The size
+ * is taken to follow frames times pixels, and the cut is shared between them.
+ */
+export const shrinkAnimation = (settings: AnimationSettings, outputBytes: number, targetBytes: number): AnimationSettings | null => {
+  const ratio = Math.min((targetBytes * CORRECTION_MARGIN) / outputBytes, 1);
+  const fps = Math.max(MIN_ANIMATION_FPS, Math.floor(settings.fps * Math.sqrt(ratio)));
+  // Whatever fewer frames do not save comes out of the area.
+  const areaRatio = Math.min(ratio / (fps / settings.fps), 1);
+  const resolution = Math.max(MIN_ANIMATION_WIDTH, Math.floor((settings.resolution * Math.sqrt(areaRatio)) / 2) * 2);
+  if (fps === settings.fps && resolution === settings.resolution) return null;
+  return { ...settings, fps, resolution };
+};
+
+/**
+ * Encodes an animation and, with a size limit, encodes it again at a lower
+ * frame rate and width until it fits. Resolves to the output and the
+ * settings that produced it. Progress is reported from 0 to 100 per attempt.
+ */
+export const runAnimationEncode = async <T extends { byteLength: number }>(
+  runner: EncodeRunner<T>,
+  job: AnimationEncodeJob,
+  onProgress: ProgressCallback
+): Promise<{ output: T; settings: AnimationSettings }> => {
+  const { label } = ANIMATION_FORMATS[job.settings.format];
+  const targetBytes = job.settings.targetSizeMB !== null ? job.settings.targetSizeMB * 1024 * 1024 : null;
+
+  const runPass = async (args: string[], offset: number, span: number, step: string) => {
+    onProgress({ percentage: Math.round(offset), step });
+    await runner.exec(args, (ratio) => {
+      const passProgress = Math.min(Math.max(ratio, 0), 1);
+      onProgress({ percentage: Math.round(offset + passProgress * span), step });
+    });
+  };
+
+  let settings = job.settings;
+  for (let attempt = 1; ; attempt++) {
+    const commands = buildAnimationArgs({ ...job, settings });
+    const retry = attempt > 1 ? ` (retry at ${settings.fps} fps, ${settings.resolution}px)` : '';
+    if (commands.palette) {
+      await runPass(commands.palette, 0, 50, `Generating color palette...${retry}`);
+      await runPass(commands.encode, 50, 50, `Converting video to ${label}...${retry}`);
+    } else {
+      await runPass(commands.encode, 0, 100, `Converting video to ${label}...${retry}`);
+    }
+    const output = await runner.readOutput(job.output);
+    if (targetBytes === null || output.byteLength <= targetBytes * SIZE_TOLERANCE) {
+      onProgress({ percentage: 100 });
+      return { output, settings };
+    }
+
+    const next = attempt < MAX_ANIMATION_ATTEMPTS ? shrinkAnimation(settings, output.byteLength, targetBytes) : null;
+    if (!next) {
+      throw new Error(
+        `The ${label} is still ${formatBytes(output.byteLength)} at ${settings.fps} fps and ${settings.resolution}px, over the ${job.settings.targetSizeMB} MB limit. Shorten the clip or raise the limit.`
+      );
+    }
+    settings = next;
+  }
+};
+
+export type AudioFormat = 'm4a' | 'mp3' | 'opus';
+
+interface AudioFormatInfo {
+  label: string;
+  encoder: string;
+  extension: string;
+  mimeType: string;
+  containerArgs: string[];
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatInfo> = {
+  m4a: { label: 'M4A (AAC)', encoder: 'aac', extension: 'm4a', mimeType: 'audio/mp4', containerArgs: ['-movflags', '+faststart'] },
+  mp3: { label: 'MP3', encoder: 'libmp3lame', extension: 'mp3', mimeType: 'audio/mpeg', containerArgs: [] },
+  opus: { label: 'Opus', encoder: 'libopus', extension: 'opus', mimeType: 'audio/ogg', containerArgs: [] },
+};
+
+/**
+ * The command that exports only the audio track of a clip, with the same
+ * stream choice, bitrate, channel and filter options as video compression.
+ */
+export const buildAudioExtractArgs = (
+  inputArgs: string[],
+  output: string,
+  duration: number,
+  settings: AudioSettings & { audioFormat: AudioFormat }
+): string[] => {
+  const format = AUDIO_FORMATS[settings.audioFormat];
+  return [
+    '-y',
+    ...inputArgs,
+    '-map', audioMapSpec(settings),
+    '-vn',
+    ...audioEncodeArgs(settings, format.encoder, duration, { fadeIn: settings.fadeAudio, fadeOut: settings.fadeAudio }),
+    ...format.containerArgs,
+    output,
+  ];
+};
@@ -0,0 +1,322 @@
+import { FFFSType, FFmpeg } from '@ffmpeg/ffmpeg';
+import { CoreLoadProgressCallback, CoreMode, getCoreMode, loadCoreURLs } from './coreLoader';
+import type { ProgressCallback } from './encodePipeline';
+import { formatBytes } from '../utils/format';
+
+// Jobs run one at a time on a single FFmpeg instance. A pool would hold the
+// core and the working files of every job once per instance, and memory is
+// what limits the browser, so jobs wait in a queue instead.
+
+// Shared by every caller so concurrent requests wait for the same load instead
+// of racing to create a second instance.
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+
+const createFfmpeg = async (onProgress?: CoreLoadProgressCallback): Promise<FFmpeg> => {
+  const instance = new FFmpeg();
+  await instance.load(await loadCoreURLs(onProgress));
+  return instance;
+};
+
+/**
+ * Returns the shared instance, loading it on first use. Download progress is
+ * only reported to the caller that starts the load; later callers just wait.
+ */
+export const getFfmpeg = (onProgress?: CoreLoadProgressCallback): Promise<FFmpeg> => {
+  if (!ffmpegPromise) {
+    ffmpegPromise = createFfmpeg(onProgress).catch((err) => {
+      // Allow the next call to retry instead of caching the failure.
+      ffmpegPromise = null;
+      throw err;
+    });
+  }
+  return ffmpegPromise;
+};
+
+const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+export type FfmpegJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface MemoryPressure {
+  level: 'warning' | 'critical';
+  message: string;
+}
+
+export interface FfmpegJobInfo {
+  id: number;
+  label: string;
+  status: FfmpegJobStatus;
+  progress: number; // 0-100
+  error: string | null;
+  memoryPressure: MemoryPressure | null; // checked when the job is queued, before it runs
+}
+
+export interface FfmpegJobEvent {
+  type: FfmpegJobStatus | 'progress';
+  job: FfmpegJobInfo;
+}
+
+type FfmpegJobListener = (event: FfmpegJobEvent) => void;
+
+const listeners = new Set<FfmpegJobListener>();
+
+/** Calls `listener` on every job status change and progress update. Returns the unsubscribe function. */
+export const subscribeToJobs = (listener: FfmpegJobListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const emit = (type: FfmpegJobEvent['type'], job: FfmpegJobInfo) => {
+  const snapshot = { ...job };
+  listeners.forEach((listener) => listener({ type, job: snapshot }));
+};
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+// The core's linear memory can't grow past this: @ffmpeg/core stops at 2 GB
+// and @ffmpeg/core-mt is fixed at the 1 GB it starts with.
+const WASM_MEMORY_LIMIT: Record<CoreMode, number> = {
+  'single-thread': 2 * GB,
+  'multi-thread': 1 * GB,
+};
+// Taken by the core whatever the file: codec state, frame and lookahead buffers, thread stacks.
+const CORE_MEMORY_MARGIN = 384 * MB;
+const WARNING_SHARE = 0.5; // of the budget
+
+// Only Chromium reports the heap limit; elsewhere fall back to the device
+// memory hint (rounded down and capped at 8 GB by the browser), then to a guess.
+const getTabMemoryBudget = (): number => {
+  const heapLimit = (performance as { memory?: { jsHeapSizeLimit: number } }).memory?.jsHeapSizeLimit;
+  if (heapLimit) return heapLimit;
+  const deviceMemory = (navigator as { deviceMemory?: number }).deviceMemory;
+  return deviceMemory ? (deviceMemory * GB) / 2 : 2 * GB;
+};
+
+// Inputs are mounted, so they only cost the chunks being read. Outputs and
+// working files (pass logs, palettes, parts) are written to the FS in full and
+// share the core's memory until the job reads them back, so they get what the
+// core leaves over.
+const getFileMemoryBudget = (): number =>
+  Math.max(Math.min(WASM_MEMORY_LIMIT[getCoreMode()], getTabMemoryBudget()) - CORE_MEMORY_MARGIN, 0);
+
+/**
+ * Estimates whether a job that writes about `outputBytes` risks running the
+ * tab out of memory. Returns null when it should fit comfortably.
+ */
+export const getMemoryPressure = (outputBytes: number): MemoryPressure | null => {
+  const budget = getFileMemoryBudget();
+  const needed = outputBytes + CORE_MEMORY_MARGIN;
+  if (outputBytes > budget) {
+    return {
+      level: 'critical',
+      message: `This job needs about ${formatBytes(needed, 1)} of memory, more than FFmpeg can get in this browser tab. It may fail or crash the tab; trim the video or lower the target size.`,
+    };
+  }
+  if (outputBytes > budget * WARNING_SHARE) {
+    return {
+      level: 'warning',
+      message: `This job may need up to ${formatBytes(needed, 1)} of memory. Close other heavy tabs before processing it.`,
+    };
+  }
+  return null;
+};
+
+/**
+ * The largest input this device can be expected to process. A constant
+ * quality encode may write about as much as it reads, so this allows for an
+ * output as big as the input.
+ */
+export const getMaxInputSize = (): number => getFileMemoryBudget();
+
+const INPUTS_DIR = '/inputs';
+// Mounts only hold a reference to the Blob, but keep the list short anyway.
+const MAX_MOUNTED_INPUTS = 8;
+
+interface MountedInput {
+  data: Blob;
+  name: string;
+  instance: FFmpeg;
+  dir: string;
+}
+
+let mountedInputs: MountedInput[] = []; // least recently used first
+let nextMountId = 1;
+
+/**
+ * Makes `data` readable in the virtual FS without copying it: WORKERFS reads
+ * from the Blob on demand. Mounts outlive the job that made them, so the probe,
+ * filmstrip and encode of a video all read the same mount. Call from a job.
+ */
+export const mountInput = async (ffmpegInstance: FFmpeg, data: Blob, name = 'input.video'): Promise<string> => {
+  // A terminated instance took its mounts with it.
+  mountedInputs = mountedInputs.filter((input) => input.instance === ffmpegInstance);
+  const existing = mountedInputs.find((input) => input.data === data && input.name === name);
+  if (existing) {
+    mountedInputs = [...mountedInputs.filter((input) => input !== existing), existing];
+    return `${existing.dir}/${name}`;
+  }
+
+  try {
+    await ffmpegInstance.createDir(INPUTS_DIR);
+  } catch {
+    // Made for an earlier input.
+  }
+  const dir = `${INPUTS_DIR}/${nextMountId++}`;
+  await ffmpegInstance.createDir(dir);
+  await ffmpegInstance.mount(FFFSType.WORKERFS, { blobs: [{ name, data }] }, dir);
+  mountedInputs.push({ data, name, instance: ffmpegInstance, dir });
+
+  while (mountedInputs.length > MAX_MOUNTED_INPUTS) {
+    const oldest = mountedInputs.shift()!;
+    try {
+      await ffmpegInstance.unmount(oldest.dir);
+      await ffmpegInstance.deleteDir(oldest.dir);
+    } catch (err) {
+      console.error(`Failed to unmount ${oldest.dir}:`, err);
+    }
+  }
+  return `${dir}/${name}`;
+};
+
+let nextJobId = 1;
+let isBusy = false;
+const waiting: (() => void)[] = [];
+
+// Resolves once every job queued before this one has finished. Aborting
+// leaves the queue without waiting for the jobs ahead.
+const waitForTurn = (signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (!isBusy) {
+      isBusy = true;
+      resolve();
+      return;
+    }
+    const start = () => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    };
+    const cancel = () => {
+      waiting.splice(waiting.indexOf(start), 1);
+      reject(createAbortError());
+    };
+    waiting.push(start);
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+const finishTurn = () => {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    isBusy = false;
+  }
+};
+
+const removeDir = async (ffmpegInstance: FFmpeg, dir: string): Promise<void> => {
+  for (const node of await ffmpegInstance.listDir(dir)) {
+    if (node.name === '.' || node.name === '..') continue;
+    const path = `${dir}/${node.name}`;
+    if (node.isDir) {
+      await removeDir(ffmpegInstance, path);
+    } else {
+      await ffmpegInstance.deleteFile(path);
+    }
+  }
+  await ffmpegInstance.deleteDir(dir);
+};
+
+export interface FfmpegJobOptions {
+  label: string;
+  signal?: AbortSignal;
+  inputBytes?: number; // size of the input the job encodes
+  // Expected size of what the job writes, for the memory check; the input size when unknown.
+  outputBytes?: number;
+  onProgress?: ProgressCallback;
+}
+
+const getJobMemoryPressure = ({ inputBytes, outputBytes }: FfmpegJobOptions): MemoryPressure | null => {
+  const written = outputBytes ?? inputBytes;
+  return written ? getMemoryPressure(written) : null;
+};
+
+/**
+ * Queues a task for the shared FFmpeg instance. The task gets a directory of
+ * its own in the virtual FS, which is removed with everything in it when the
+ * task ends, however it ends. Aborting the signal terminates the instance
+ * (which is the only way to stop a running exec), discards its FS and starts
+ * loading a fresh core in the background for the next job.
+ */
+export const runFfmpegJob = async <T>(
+  options: FfmpegJobOptions,
+  task: (ffmpegInstance: FFmpeg, workDir: string, onProgress: ProgressCallback) => Promise<T>
+): Promise<T> => {
+  const { signal } = options;
+  const job: FfmpegJobInfo = {
+    id: nextJobId++,
+    label: options.label,
+    status: 'queued',
+    progress: 0,
+    error: null,
+    memoryPressure: getJobMemoryPressure(options),
+  };
+  const setStatus = (status: FfmpegJobStatus, error: string | null = null) => {
+    job.status = status;
+    job.error = error;
+    emit(status, job);
+  };
+
+  emit('queued', job);
+  try {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    await waitForTurn(signal);
+  } catch (err) {
+    setStatus('cancelled');
+    throw err;
+  }
+
+  const workDir = `/job-${job.id}`;
+  let ffmpegInstance: FFmpeg | null = null;
+  let terminated = false;
+  const abortListener = () => {
+    terminated = true;
+    ffmpegInstance?.terminate();
+    ffmpegPromise = null;
+    getFfmpeg().catch((err) => console.error('Failed to reload FFmpeg after cancellation:', err));
+  };
+
+  try {
+    ffmpegInstance = await getFfmpeg();
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    signal?.addEventListener('abort', abortListener, { once: true });
+    setStatus('running');
+    await ffmpegInstance.createDir(workDir);
+    const result = await task(ffmpegInstance, workDir, (progress) => {
+      job.progress = progress.percentage;
+      emit('progress', job);
+      options.onProgress?.(progress);
+    });
+    setStatus('done');
+    return result;
+  } catch (err) {
+    if (signal?.aborted) {
+      setStatus('cancelled');
+      throw createAbortError();
+    }
+    setStatus('failed', err instanceof Error ? err.message : String(err));
+    throw err;
+  } finally {
+    signal?.removeEventListener('abort', abortListener);
+    if (ffmpegInstance && !terminated) {
+      await removeDir(ffmpegInstance, workDir).catch((err) => console.error(`Failed to clean up ${workDir}:`, err));
+    }
+    finishTurn();
+  }
+};
@@ -0,0 +1,321 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { FfmpegJobEvent } from './ffmpegJobs';
+
+// An in-memory stand-in for the ffmpeg.wasm class: a flat virtual FS, the
+// log and progress events, and an exec that each test scripts.
+type ExecHandler = (args: string[], instance: MockFfmpeg) => number | Promise<number>;
+
+class MockFfmpeg {
+  static instances: MockFfmpeg[] = [];
+  static onExec: ExecHandler = () => 0;
+
+  files = new Map<string, Uint8Array>();
+  dirs = new Set<string>(['/']);
+  mounts: { type: string; blobs: { name: string; data: Blob }[]; dir: string }[] = [];
+  commands: string[][] = [];
+  terminated = false;
+  private pending = new Set<(err: Error) => void>();
+  private listeners = new Map<string, Set<(event: any) => void>>();
+
+  constructor() {
+    MockFfmpeg.instances.push(this);
+  }
+
+  async load() {
+    return true;
+  }
+
+  on(event: string, listener: (event: any) => void) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+  }
+
+  off(event: string, listener: (event: any) => void) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit(event: string, payload: unknown) {
+    this.listeners.get(event)?.forEach((listener) => listener(payload));
+  }
+
+  // Like the real class, terminating rejects the exec that is running.
+  exec(args: string[]) {
+    this.commands.push(args);
+    return new Promise<number>((resolve, reject) => {
+      this.pending.add(reject);
+      Promise.resolve(MockFfmpeg.onExec(args, this)).then(resolve, reject).finally(() => this.pending.delete(reject));
+    });
+  }
+
+  async createDir(path: string) {
+    if (this.dirs.has(path)) throw new Error(`${path} exists`);
+    this.dirs.add(path);
+  }
+
+  async listDir(path: string) {
+    const children = [...this.dirs, ...this.files.keys()]
+      .filter((entry) => entry !== path && entry.startsWith(`${path}/`) && !entry.slice(path.length + 1).includes('/'));
+    return children.map((entry) => ({ name: entry.slice(path.length + 1), isDir: this.dirs.has(entry) }));
+  }
+
+  async deleteDir(path: string) {
+    if ((await this.listDir(path)).length > 0) throw new Error(`${path} is not empty`);
+    this.dirs.delete(path);
+  }
+
+  async writeFile(path: string, data: Uint8Array | string) {
+    this.files.set(path, typeof data === 'string' ? new TextEncoder().encode(data) : data);
+  }
+
+  async readFile(path: string) {
+    const data = this.files.get(path);
+    if (!data) throw new Error(`ENOENT: ${path}`);
+    return data;
+  }
+
+  async deleteFile(path: string) {
+    if (!this.files.delete(path)) throw new Error(`ENOENT: ${path}`);
+  }
+
+  async mount(type: string, options: { blobs: { name: string; data: Blob }[] }, dir: string) {
+    this.mounts.push({ type, blobs: options.blobs, dir });
+  }
+
+  async unmount() {}
+
+  terminate() {
+    this.terminated = true;
+    this.pending.forEach((reject) => reject(new Error('called FFmpeg.terminate()')));
+  }
+}
+
+vi.mock('@ffmpeg/ffmpeg', () => ({
+  FFmpeg: MockFfmpeg,
+  FFFSType: { WORKERFS: 'WORKERFS' },
+}));
+
+vi.mock('./coreLoader', () => ({
+  loadCoreURLs: async () => ({}),
+  getCoreMode: () => 'single-thread',
+}));
+
+const { runFfmpegJob, subscribeToJobs } = await import('./ffmpegJobs');
+const { compressVideo, convertToAnimation, extractFrames, getVideoMetadata } = await import('./ffmpegService');
+
+const PROBE_LOG = readFileSync(new URL('./fixtures/probe/rotated-displaymatrix.txt', import.meta.url), 'utf8');
+
+const MB = 1024 * 1024;
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+// Writes `bytes` to the output, the last argument, as an encode would.
+const writeOutput = (bytes: number): ExecHandler => (args, instance) => {
+  instance.files.set(args[args.length - 1], new Uint8Array(bytes));
+  return 0;
+};
+
+const latestInstance = () => MockFfmpeg.instances[MockFfmpeg.instances.length - 1];
+
+const videoFile = () => new File([new Uint8Array(2 * MB)], 'clip.mp4', { type: 'video/mp4' });
+
+const recordJobEvents = () => {
+  const events: FfmpegJobEvent[] = [];
+  const unsubscribe = subscribeToJobs((event) => {
+    if (event.type !== 'progress') events.push(event);
+  });
+  return { events, unsubscribe };
+};
+
+beforeAll(() => {
+  // Node 20 has no navigator; the memory check reads its hints.
+  vi.stubGlobal('navigator', { deviceMemory: 8 });
+});
+
+afterEach(() => {
+  MockFfmpeg.onExec = () => 0;
+});
+
+describe('runFfmpegJob', () => {
+  it('removes the job directory when the task fails', async () => {
+    const { events, unsubscribe } = recordJobEvents();
+    let workDir = '';
+    await expect(runFfmpegJob({ label: 'Failing' }, async (instance, dir) => {
+      workDir = dir;
+      await instance.writeFile(`${dir}/partial.mp4`, new Uint8Array(16));
+      throw new Error('Encoder gave up');
+    })).rejects.toThrow('Encoder gave up');
+    unsubscribe();
+
+    const instance = latestInstance();
+    expect(instance.dirs.has(workDir)).toBe(false);
+    expect(instance.files.has(`${workDir}/partial.mp4`)).toBe(false);
+    expect(events.map((event) => event.type)).toEqual(['queued', 'running', 'failed']);
+    expect(events[2].job.error).toBe('Encoder gave up');
+  });
+
+  it('takes an aborted job out of the queue without running it', async () => {
+    const first = deferred();
+    const running = runFfmpegJob({ label: 'First' }, () => first.promise);
+    const controller = new AbortController();
+    const skipped = vi.fn();
+    const queued = runFfmpegJob({ label: 'Queued', signal: controller.signal }, skipped);
+    const after = runFfmpegJob({ label: 'After' }, async () => 'ran');
+
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    first.resolve();
+    await running;
+    await expect(after).resolves.toBe('ran');
+    expect(skipped).not.toHaveBeenCalled();
+  });
+
+  it('terminates the instance when a running job is aborted and loads a fresh one', async () => {
+    const controller = new AbortController();
+    const started = deferred();
+    MockFfmpeg.onExec = () => {
+      started.resolve();
+      return new Promise(() => {});
+    };
+    const job = runFfmpegJob({ label: 'Long', signal: controller.signal }, (instance) => instance.exec(['-i', 'input.video', 'out.mp4']));
+    await started.promise;
+    const instance = latestInstance();
+
+    controller.abort();
+    await expect(job).rejects.toMatchObject({ name: 'AbortError' });
+    expect(instance.terminated).toBe(true);
+
+    const next = await runFfmpegJob({ label: 'Next' }, async (ffmpegInstance) => ffmpegInstance);
+    expect(next).not.toBe(instance);
+    expect((next as unknown as MockFfmpeg).terminated).toBe(false);
+  });
+});
+
+describe('getVideoMetadata', () => {
+  it('mounts the file and parses what ffmpeg -i logs', async () => {
+    MockFfmpeg.onExec = (args, instance) => {
+      PROBE_LOG.split('\n').forEach((message) => instance.emit('log', { type: 'stderr', message }));
+      return 1;
+    };
+    const file = videoFile();
+    const info = await getVideoMetadata(file);
+
+    const instance = latestInstance();
+    const mount = instance.mounts[instance.mounts.length - 1];
+    expect(mount).toMatchObject({ type: 'WORKERFS', blobs: [{ name: 'input.video', data: file }] });
+    expect(instance.commands[instance.commands.length - 1]).toEqual(['-i', `${mount.dir}/input.video`]);
+    expect(info).toMatchObject({ width: 1920, height: 1080, rotation: 90, codec: 'hevc' });
+  });
+});
+
+const compressSettings = {
+  outputFormat: 'h264' as const,
+  rateControl: 'target' as const,
+  crf: 23,
+  resolution: 720,
+  removeAudio: false,
+  targetSizeMB: 8,
+  twoPass: false,
+  aspectRatio: 'original' as const,
+  reframeMode: 'crop' as const,
+  padColor: '#000000',
+  cropOffset: 0.5,
+  rotate: 0 as const,
+  flipHorizontal: false,
+  flipVertical: false,
+  audioStreamIndex: null,
+  audioBitrate: 128,
+  audioChannels: 'stereo' as const,
+  normalizeLoudness: false,
+  fadeAudio: false,
+  overlay: null,
+  subtitles: null,
+  startTime: '',
+  endTime: '',
+};
+
+describe('compressVideo', () => {
+  it('encodes the mounted input into the job directory and returns the output', async () => {
+    MockFfmpeg.onExec = writeOutput(4096);
+    const blob = await compressVideo(videoFile(), 60, compressSettings, () => {});
+
+    const args = latestInstance().commands[latestInstance().commands.length - 1];
+    expect(args).toEqual(expect.arrayContaining(['-c:v', 'libx264', '-b:v', '-c:a', 'aac']));
+    expect(args[args.indexOf('-i') + 1]).toMatch(/^\/inputs\/\d+\/input\.video$/);
+    expect(args[args.length - 1]).toMatch(/^\/job-\d+\/output\.mp4$/);
+    expect(blob.size).toBe(4096);
+    expect(blob.type).toBe('video/mp4');
+  });
+
+  it('trims with an input seek and duration', async () => {
+    MockFfmpeg.onExec = writeOutput(1024);
+    await compressVideo(videoFile(), 60, { ...compressSettings, startTime: '10', endTime: '20' }, () => {});
+
+    const args = latestInstance().commands[latestInstance().commands.length - 1];
+    expect(args.slice(0, args.indexOf('-i'))).toEqual(['-y', '-ss', '10.000', '-t', '10.000']);
+  });
+
+  it('fails on a non-zero exit code instead of reading a stale file', async () => {
+    MockFfmpeg.onExec = () => 1;
+    await expect(compressVideo(videoFile(), 60, compressSettings, () => {})).rejects.toThrow(/exit code 1/);
+  });
+});
+
+describe('convertToAnimation', () => {
+  it('builds a palette, then encodes the GIF with it', async () => {
+    MockFfmpeg.onExec = writeOutput(2048);
+    const blob = await convertToAnimation(videoFile(), {
+      format: 'gif',
+      resolution: 480,
+      fps: 15,
+      startTime: '',
+      endTime: '5',
+      loop: 0,
+      pingPong: false,
+      speed: 1,
+      webpQuality: 75,
+      webpLossless: false,
+      targetSizeMB: null,
+      rotate: 0,
+      flipHorizontal: false,
+      flipVertical: false,
+    }, () => {});
+
+    const [palette, encode] = latestInstance().commands.slice(-2);
+    const paletteFile = palette[palette.length - 1];
+    expect(paletteFile).toMatch(/^\/job-\d+\/palette\.png$/);
+    expect(palette[palette.indexOf('-filter_complex') + 1]).toMatch(/palettegen$/);
+    expect(encode).toEqual(expect.arrayContaining(['-i', paletteFile]));
+    expect(encode[encode.indexOf('-filter_complex') + 1]).toMatch(/paletteuse$/);
+    expect(encode[encode.length - 1]).toMatch(/^\/job-\d+\/output\.gif$/);
+    expect(blob.type).toBe('image/gif');
+  });
+});
+
+describe('extractFrames', () => {
+  it('grabs one frame from the middle of each slice', async () => {
+    MockFfmpeg.onExec = writeOutput(100);
+    const frames = await extractFrames(videoFile(), 10, 2);
+
+    const seeks = latestInstance().commands.slice(-2).map((args) => args[args.indexOf('-ss') + 1]);
+    expect(seeks).toEqual(['2.500', '7.500']);
+    expect(frames.map((frame) => frame.type)).toEqual(['image/jpeg', 'image/jpeg']);
+  });
+
+  it('does not pass off the previous frame when a seek finds none', async () => {
+    let calls = 0;
+    MockFfmpeg.onExec = (args, instance) => (calls++ === 0 ? writeOutput(100)(args, instance) : 0);
+    await expect(extractFrames(videoFile(), 10, 2)).rejects.toThrow('FFmpeg found no frame at 7.5s.');
+  });
+
+  it('reports a failed extraction with its exit code', async () => {
+    MockFfmpeg.onExec = () => 1;
+    await expect(extractFrames(videoFile(), 10, 2)).rejects.toThrow('FFmpeg failed with exit code 1 extracting the frame at 2.5s.');
+  });
+});
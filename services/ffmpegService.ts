@@ -1,225 +1,698 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
-
-let ffmpeg: FFmpeg | null = null;
+import { fetchFile } from '@ffmpeg/util';
+import { CoreLoadProgressCallback, CoreMode, getCoreMode } from './coreLoader';
+import { getFfmpeg, mountInput, runFfmpegJob } from './ffmpegJobs';
+import { parseVideoInfo, VideoInfo } from './probeParser';
+import {
+  buildQualityArgs,
+  parsePsnrLog,
+  parseSsimLog,
+  parseVmafLog,
+  qualityLogPath,
+  QualityMetric,
+  QualityReport,
+  summarizeQuality,
+} from './qualityMetrics';
+import {
+  buildSampleArgs,
+  buildSampleEncodeArgs,
+  CurvePoint,
+  getBitrateForBitsPerPixel,
+  getSampleSize,
+  getSampleWindows,
+  SAMPLE_BITS_PER_PIXEL,
+  toCurve,
+} from './sizeAdvisor';
+import { serializeSrt, shiftCues, SubtitleCue } from './subtitleParser';
+import sansFontURL from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
+import serifFontURL from 'dejavu-fonts-ttf/ttf/DejaVuSerif-Bold.ttf?url';
+import monoFontURL from 'dejavu-fonts-ttf/ttf/DejaVuSansMono-Bold.ttf?url';
+import {
+  AudioFades,
+  AUDIO_FORMATS,
+  AudioFormat,
+  AudioSettings,
+  AnimationSettings,
+  ANIMATION_FORMATS,
+  AnimationFormat,
+  buildAudioExtractArgs,
+  EncodeRunner,
+  getAnimationClip,
+  getVideoBitrates,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  OverlayPlacement,
+  PASS_LOG_PREFIX,
+  ProgressCallback,
+  runAnimationEncode,
+  runVideoEncode,
+  SubtitleFont,
+  SubtitleStyle,
+  trimInputArgs,
+  VideoEncodeSettings,
+  VideoSegment,
+} from './encodePipeline';
+import { getTrimRange } from '../utils/time';
+
+export {
+  ANIMATION_FORMATS,
+  ASPECT_RATIOS,
+  AUDIO_BITRATES,
+  AUDIO_FORMATS,
+  buildVideoFilter,
+  estimateOutputSize,
+  getReframeSize,
+  getRotatedSize,
+  getSegments,
+  OUTPUT_FORMATS,
+  SUBTITLE_FONTS,
+} from './encodePipeline';
+export type {
+  AnimationFormat,
+  AspectRatio,
+  AudioChannels,
+  AudioFades,
+  AudioFormat,
+  AudioSettings,
+  OutputFormat,
+  OverlayPosition,
+  RateControl,
+  ReframeMode,
+  ReframeSettings,
+  Rotation,
+  SubtitleFont,
+  SubtitleMode,
+  SubtitlePosition,
+  SubtitleSize,
+  VideoSegment,
+} from './encodePipeline';
+export type { CoreLoadProgress, CoreMode } from './coreLoader';
+export { getMaxInputSize, getMemoryPressure, isAbortError, subscribeToJobs } from './ffmpegJobs';
+export type { FfmpegJobEvent, FfmpegJobInfo, FfmpegJobStatus, MemoryPressure } from './ffmpegJobs';
+export type { AudioStreamInfo, SubtitleStreamInfo, VideoInfo } from './probeParser';
+export type { SubtitleCue } from './subtitleParser';
+export type { QualityMetric, QualityReport, QualitySample } from './qualityMetrics';
+export { DESTINATIONS, getBitsPerPixel, getLowBitrateWarning, recommendSettings } from './sizeAdvisor';
+export type { CurvePoint, Destination, FrameSize, SizeRecommendation } from './sizeAdvisor';
+
+/**
+ * Loads the shared FFmpeg instance. Download progress is only reported to the
+ * caller that starts the load; later callers just wait for it.
+ */
+export const loadFfmpeg = async (onProgress?: CoreLoadProgressCallback): Promise<void> => {
+  await getFfmpeg(onProgress);
+};
 
-export interface VideoInfo {
-  duration: number;
-  width: number;
-  height: number;
-  fps: number;
-}
+// Encoders gain little past this, and every thread is a worker with its own wasm stack.
+const MAX_THREADS = 8;
 
-export const loadFfmpeg = async (): Promise<void> => {
-  if (ffmpeg) {
-    return;
-  }
-  ffmpeg = new FFmpeg();
-  
-  // Base URL for FFmpeg core files
-  const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd';
-
-  await ffmpeg.load({
-    coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-    wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-  });
+/**
+ * Which core this page loads and how many threads encodes use with it.
+ */
+export const getCoreInfo = (): { mode: CoreMode; threads: number } => {
+  const mode = getCoreMode();
+  const threads = mode === 'multi-thread' ? Math.min(Math.max(navigator.hardwareConcurrency || 1, 1), MAX_THREADS) : 1;
+  return { mode, threads };
 };
 
-export const getVideoMetadata = async (file: File): Promise<VideoInfo> => {
-  if (!ffmpeg) {
-    await loadFfmpeg();
-  }
-  // This non-null assertion is safe because loadFfmpeg initializes it.
-  const ffmpegInstance = ffmpeg!;
+export const getVideoMetadata = (file: File, signal?: AbortSignal): Promise<VideoInfo> =>
+  runFfmpegJob({ label: `Reading ${file.name}`, signal }, async (ffmpegInstance) => {
+    const fileName = await mountInput(ffmpegInstance, file);
+
+    const logs: string[] = [];
+    const logListener = ({ type, message }: {type: string, message: string}) => {
+      if (type === 'stderr') {
+        logs.push(message);
+      }
+    };
+    ffmpegInstance.on('log', logListener);
+
+    try {
+      // This command will fail, but that's expected. The metadata is in stderr logs.
+      await ffmpegInstance.exec(['-i', fileName]);
+    } catch (e) {
+      // ffmpeg throws an error when called with -i and no output, which is expected.
+    }
 
-  const fileName = 'input.video';
-  await ffmpegInstance.writeFile(fileName, await fetchFile(file));
+    // Reset log handler
+    ffmpegInstance.off('log', logListener);
 
-  let duration = 0;
-  let width = 0;
-  let height = 0;
-  let fps = 0;
+    const output = logs.join('\n');
+    try {
+      return parseVideoInfo(output);
+    } catch (err) {
+      console.error("FFmpeg output:", output);
+      throw err;
+    }
+  });
 
-  const logs: string[] = [];
-  const logListener = ({ type, message }: {type: string, message: string}) => {
-    if (type === 'stderr') {
-      logs.push(message);
+/**
+ * Grabs `count` evenly spaced JPEG frames for the trim filmstrip, seeking to
+ * each one instead of decoding the whole video.
+ */
+export const extractFrames = (
+  file: File,
+  duration: number,
+  count: number,
+  signal?: AbortSignal
+): Promise<Blob[]> =>
+  runFfmpegJob({ label: `Filmstrip of ${file.name}`, signal }, async (ffmpegInstance, workDir) => {
+    const inputFilename = await mountInput(ffmpegInstance, file);
+    const frameFilename = `${workDir}/frame.jpg`;
+
+    const frames: Blob[] = [];
+    for (let i = 0; i < count; i++) {
+      // Sample the middle of each slice so fades at either end don't give black frames.
+      const time = (duration * (i + 0.5)) / count;
+      // A seek that finds no frame leaves the file alone, so the last frame mustn't linger.
+      try {
+        await ffmpegInstance.deleteFile(frameFilename);
+      } catch {
+        // Nothing extracted yet.
+      }
+      const exitCode = await ffmpegInstance.exec([
+        '-y', '-ss', time.toFixed(3), '-i', inputFilename,
+        '-frames:v', '1', '-vf', 'scale=160:-2', '-q:v', '5',
+        frameFilename,
+      ]);
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg failed with exit code ${exitCode} extracting the frame at ${time.toFixed(1)}s.`);
+      }
+      const data = await ffmpegInstance.readFile(frameFilename).catch(() => null);
+      if (!data) {
+        throw new Error(`FFmpeg found no frame at ${time.toFixed(1)}s.`);
+      }
+      frames.push(new Blob([(data as Uint8Array).buffer], { type: 'image/jpeg' }));
     }
+    return frames;
+  });
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/apng': 'png',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'opus',
+};
+
+export const getFileExtension = (mimeType: string): string => FILE_EXTENSIONS[mimeType] ?? 'bin';
+
+/**
+ * Reads the names listed by `ffmpeg -encoders` or `-filters`. Both print one
+ * component per line with its flags first, e.g. " V....D libx264   libx264 H.264 ...".
+ */
+const listComponents = async (ffmpegInstance: FFmpeg, kind: '-encoders' | '-filters'): Promise<Set<string>> => {
+  const lines: string[] = [];
+  const logListener = ({ message }: { message: string }) => {
+    lines.push(message);
   };
   ffmpegInstance.on('log', logListener);
-
   try {
-    // This command will fail, but that's expected. The metadata is in stderr logs.
-    await ffmpegInstance.exec(['-i', fileName]);
-  } catch (e) {
-    // ffmpeg throws an error when called with -i and no output, which is expected.
-  }
-
-  const output = logs.join('\n');
-  
-  const durationMatch = output.match(/Duration: (\d{2}):(\d{2}):(\d{2})\.\d{2}/);
-  if (durationMatch) {
-    const hours = parseInt(durationMatch[1], 10);
-    const minutes = parseInt(durationMatch[2], 10);
-    const seconds = parseInt(durationMatch[3], 10);
-    duration = hours * 3600 + minutes * 60 + seconds;
+    await ffmpegInstance.exec(['-hide_banner', kind]);
+  } finally {
+    ffmpegInstance.off('log', logListener);
   }
+  return new Set(lines.map((line) => line.trim().split(/\s+/)[1]).filter(Boolean));
+};
 
-  const streamMatch = output.match(/Stream #\d:\d.*: Video: .* (\d+)x(\d+).* (\d+(\.\d+)?) fps/);
-  if (streamMatch) {
-    width = parseInt(streamMatch[1], 10);
-    height = parseInt(streamMatch[2], 10);
-    fps = parseFloat(streamMatch[3]);
+let encodersPromise: Promise<Set<string>> | null = null;
+
+// `ffmpeg -encoders` of the loaded core, read once per session.
+const getEncoders = (): Promise<Set<string>> => {
+  if (!encodersPromise) {
+    encodersPromise = runFfmpegJob({ label: 'Listing encoders' }, (ffmpegInstance) =>
+      listComponents(ffmpegInstance, '-encoders')
+    ).catch((err) => {
+      encodersPromise = null;
+      throw err;
+    });
   }
+  return encodersPromise;
+};
 
-  // Reset log handler
-  ffmpegInstance.off('log', logListener);
+/**
+ * Lists the output formats whose encoders are compiled into the loaded core.
+ */
+export const getAvailableOutputFormats = async (): Promise<OutputFormat[]> => {
+  const encoders = await getEncoders();
+  return (Object.keys(OUTPUT_FORMATS) as OutputFormat[]).filter((format) => encoders.has(OUTPUT_FORMATS[format].encoder));
+};
 
-  await ffmpegInstance.deleteFile(fileName);
+/**
+ * Lists the animated image formats the loaded core can write. GIF is always
+ * built in; WebP needs libwebp.
+ */
+export const getAvailableAnimationFormats = async (): Promise<AnimationFormat[]> => {
+  const encoders = await getEncoders();
+  return (Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).filter((format) => encoders.has(ANIMATION_FORMATS[format].encoder));
+};
 
-  if (duration === 0 || width === 0) {
-    console.error("FFmpeg output:", output);
-    throw new Error("Could not parse video metadata. The file might be corrupted or in an unsupported format.");
+let availableMetricsPromise: Promise<QualityMetric[]> | null = null;
+
+/**
+ * Lists the quality metrics the loaded core can compute. SSIM and PSNR are
+ * built into FFmpeg; VMAF needs libvmaf, which most wasm builds leave out.
+ */
+export const getAvailableQualityMetrics = (): Promise<QualityMetric[]> => {
+  if (!availableMetricsPromise) {
+    availableMetricsPromise = runFfmpegJob({ label: 'Listing filters' }, async (ffmpegInstance) => {
+      const filters = await listComponents(ffmpegInstance, '-filters');
+      return (['ssim', 'psnr', 'vmaf'] as QualityMetric[]).filter((metric) =>
+        filters.has(metric === 'vmaf' ? 'libvmaf' : metric)
+      );
+    }).catch((err) => {
+      availableMetricsPromise = null;
+      throw err;
+    });
   }
-
-  return { duration, width, height, fps };
+  return availableMetricsPromise;
 };
 
-interface VideoCompressionSettings {
-  resolution: number;
-  removeAudio: boolean;
-  targetSizeMB: number;
+export interface OverlayOptions extends OverlayPlacement {
+  image: Blob; // PNG; captions are rendered to one before encoding
+}
+
+export interface SubtitleOptions extends SubtitleStyle {
+  cues: SubtitleCue[]; // on the source timeline; shifted to each encoded clip
+}
+
+interface VideoCompressionSettings extends VideoEncodeSettings {
+  overlay: OverlayOptions | null;
+  subtitles: SubtitleOptions | null;
   startTime: string;
   endTime: string;
 }
 
+// Names inside each job's own directory of the virtual FS.
+const OVERLAY_FILENAME = 'overlay.png';
+const SUBTITLE_FILENAME = 'subtitles.srt';
+// libass loads every file in its fonts directory, so the font gets a folder of its own.
+const FONT_DIR = 'fonts';
+
+const SUBTITLE_FONT_URLS: Record<SubtitleFont, string> = {
+  sans: sansFontURL,
+  serif: serifFontURL,
+  mono: monoFontURL,
+};
+
+/**
+ * Writes the cues of one clip (and the font, when burning in) to the virtual
+ * FS. Returns false when no cue falls inside the clip.
+ */
+const writeSubtitles = async (
+  ffmpegInstance: FFmpeg,
+  workDir: string,
+  subtitles: SubtitleOptions,
+  clipStart: number,
+  clipDuration: number
+): Promise<boolean> => {
+  const cues = shiftCues(subtitles.cues, clipStart, clipDuration);
+  if (cues.length === 0) {
+    return false;
+  }
+  await ffmpegInstance.writeFile(`${workDir}/${SUBTITLE_FILENAME}`, serializeSrt(cues));
+  if (subtitles.mode === 'burn') {
+    try {
+      await ffmpegInstance.createDir(`${workDir}/${FONT_DIR}`);
+    } catch {
+      // Written for an earlier segment of the same job.
+    }
+    await ffmpegInstance.writeFile(`${workDir}/${FONT_DIR}/${subtitles.font}.ttf`, await fetchFile(SUBTITLE_FONT_URLS[subtitles.font]));
+  }
+  return true;
+};
+
+/**
+ * Adapts the shared instance to the pipeline's runner interface. A failed
+ * command throws, so a stale file from an earlier command is never read back
+ * as its output.
+ */
+const createWasmRunner = (ffmpegInstance: FFmpeg): EncodeRunner<Uint8Array> => ({
+  exec: async (args, onProgress) => {
+    const progressListener = ({ progress }: { progress: number }) => onProgress(progress);
+    ffmpegInstance.on('progress', progressListener);
+    let exitCode: number;
+    try {
+      exitCode = await ffmpegInstance.exec(args);
+    } finally {
+      ffmpegInstance.off('progress', progressListener);
+    }
+    if (exitCode !== 0) {
+      throw new Error(`FFmpeg failed with exit code ${exitCode}. This video may not suit the chosen settings; try another format or resolution.`);
+    }
+  },
+  readOutput: async (filename) => (await ffmpegInstance.readFile(filename)) as Uint8Array,
+});
+
+/**
+ * Encodes one clip of the input already in the virtual FS. `inputArgs`
+ * carries the seek/trim options together with `-i`, so callers decide which
+ * range is read. Progress is reported from 0 to 100 for this encode alone.
+ */
+const encodeVideo = async (
+  ffmpegInstance: FFmpeg,
+  workDir: string,
+  inputArgs: string[],
+  outputFilename: string,
+  clipStart: number,
+  duration: number,
+  settings: VideoCompressionSettings,
+  fades: AudioFades,
+  onProgress: ProgressCallback
+): Promise<Uint8Array> => {
+  const subtitles = settings.subtitles && await writeSubtitles(ffmpegInstance, workDir, settings.subtitles, clipStart, duration)
+    ? settings.subtitles
+    : null;
+  const { mode, threads } = getCoreInfo();
+
+  return runVideoEncode(createWasmRunner(ffmpegInstance), {
+    inputArgs,
+    output: outputFilename,
+    clipStart,
+    duration,
+    settings,
+    fades,
+    overlay: settings.overlay ? { file: `${workDir}/${OVERLAY_FILENAME}`, placement: settings.overlay } : null,
+    subtitles: subtitles ? { file: `${workDir}/${SUBTITLE_FILENAME}`, style: subtitles, fontsDir: `${workDir}/${FONT_DIR}` } : null,
+    threads: mode === 'multi-thread' ? threads : null,
+    passLogPrefix: `${workDir}/${PASS_LOG_PREFIX}`,
+  }, onProgress);
+};
+
+// A size goal bounds the output; constant quality leaves it unknown.
+const getExpectedOutputBytes = (settings: VideoCompressionSettings): number | undefined =>
+  settings.rateControl === 'crf' ? undefined : settings.targetSizeMB * 1024 * 1024;
+
 export const compressVideo = async (
   file: File,
   duration: number,
   settings: VideoCompressionSettings,
-  onProgress: (progress: { percentage: number }) => void
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<Blob> => {
-  if (!ffmpeg) {
-    await loadFfmpeg();
+  const range = getTrimRange(duration, settings.startTime, settings.endTime);
+  if (range.error) {
+    throw new Error(`Invalid trim range. ${range.error}`);
+  }
+  // Fail fast, before the file is copied into the virtual FS. The bitrate is
+  // spread over the trimmed length, not the whole source.
+  if (settings.rateControl !== 'crf') {
+    getVideoBitrates(settings.targetSizeMB, range.duration, settings.removeAudio ? 0 : settings.audioBitrate);
   }
-  const ffmpegInstance = ffmpeg!;
 
-  const { resolution, removeAudio, targetSizeMB, startTime, endTime } = settings;
+  const format = OUTPUT_FORMATS[settings.outputFormat];
 
-  const totalBitrate = (targetSizeMB * 1024 * 8) / duration; // in kbit/s
+  const outputBytes = getExpectedOutputBytes(settings);
+  return runFfmpegJob({ label: `Compressing ${file.name}`, signal, inputBytes: file.size, outputBytes, onProgress }, async (ffmpegInstance, workDir, reportProgress) => {
+    const inputFilename = await mountInput(ffmpegInstance, file);
+    if (settings.overlay) {
+      await ffmpegInstance.writeFile(`${workDir}/${OVERLAY_FILENAME}`, await fetchFile(settings.overlay.image));
+    }
 
-  const audioBitrate = removeAudio ? 0 : 128; // kbit/s, a reasonable default
-  const videoBitrate = totalBitrate - audioBitrate;
+    const inputArgs = trimInputArgs(inputFilename, range.start, range.end < duration ? range.duration : null);
+    const fades = { fadeIn: settings.fadeAudio, fadeOut: settings.fadeAudio };
+    const outputFilename = `${workDir}/output.${format.extension}`;
+    const data = await encodeVideo(ffmpegInstance, workDir, inputArgs, outputFilename, range.start, range.duration, settings, fades, reportProgress);
+    return new Blob([data.buffer], { type: format.mimeType });
+  });
+};
 
-  if (videoBitrate <= 0) {
-    throw new Error(`Target size is too small for the video duration. Try increasing the target size.`);
+/**
+ * Encodes each segment as its own file, every one aimed at the full
+ * `targetSizeMB`. Every segment reads the same mounted input.
+ */
+export const compressVideoSegments = async (
+  file: File,
+  segments: VideoSegment[],
+  settings: VideoCompressionSettings,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Blob[]> => {
+  if (settings.rateControl !== 'crf') {
+    for (const segment of segments) {
+      getVideoBitrates(settings.targetSizeMB, segment.duration, settings.removeAudio ? 0 : settings.audioBitrate);
+    }
   }
 
-  const inputFilename = 'input.video';
-  const outputFilename = 'output.mp4';
-  await ffmpegInstance.writeFile(inputFilename, await fetchFile(file));
+  const format = OUTPUT_FORMATS[settings.outputFormat];
 
-  const progressListener = ({ progress }: { progress: number }) => {
-    // Progress can sometimes exceed 1, clamp it.
-    onProgress({ percentage: Math.round(Math.min(progress, 1) * 100) });
-  };
-  ffmpegInstance.on('progress', progressListener);
+  // Each part is deleted once it's read back, so only one is in the FS at a time.
+  const outputBytes = getExpectedOutputBytes(settings);
+  return runFfmpegJob({ label: `Splitting ${file.name}`, signal, inputBytes: file.size, outputBytes, onProgress }, async (ffmpegInstance, workDir, reportProgress) => {
+    const inputFilename = await mountInput(ffmpegInstance, file);
+    if (settings.overlay) {
+      await ffmpegInstance.writeFile(`${workDir}/${OVERLAY_FILENAME}`, await fetchFile(settings.overlay.image));
+    }
 
-  const args = ['-y']; // Overwrite output file if it exists
+    const blobs: Blob[] = [];
+    for (const [i, segment] of segments.entries()) {
+      const label = `Part ${i + 1} of ${segments.length}`;
+      // Each part gets its own file, so no part can be read back as another.
+      const outputFilename = `${workDir}/part-${i + 1}.${format.extension}`;
+      const inputArgs = trimInputArgs(inputFilename, segment.start, segment.duration);
+      // Fade only where the whole selection starts and ends, not at every cut.
+      const fades = { fadeIn: settings.fadeAudio && i === 0, fadeOut: settings.fadeAudio && i === segments.length - 1 };
+      const data = await encodeVideo(ffmpegInstance, workDir, inputArgs, outputFilename, segment.start, segment.duration, settings, fades, ({ percentage, step }) => {
+        reportProgress({
+          percentage: Math.round(((i + percentage / 100) / segments.length) * 100),
+          step: step ? `${label}: ${step}` : `${label}...`,
+        });
+      });
+      blobs.push(new Blob([data.buffer], { type: format.mimeType }));
+      // The part is held by its Blob now; free the wasm memory for the next one.
+      await ffmpegInstance.deleteFile(outputFilename);
+    }
+    return blobs;
+  });
+};
 
-  if (startTime) {
-    args.push('-ss', startTime);
-  }
-  
-  args.push('-i', inputFilename);
+/**
+ * Converts the trimmed clip to an animated GIF, WebP or APNG. With a size
+ * limit the animation is re-encoded at a lower frame rate and width until it
+ * fits.
+ */
+export const convertToAnimation = (
+  file: File,
+  settings: AnimationSettings & { overlay?: OverlayOptions | null },
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { overlay } = settings;
+  const format = ANIMATION_FORMATS[settings.format];
 
-  if (endTime) {
-    args.push('-to', endTime);
+  // Validate the trim range before the job queues.
+  try {
+    getAnimationClip(settings.startTime, settings.endTime);
+  } catch (err) {
+    return Promise.reject(err);
   }
 
-  args.push(
-    '-c:v', 'libx264',
-    '-b:v', `${Math.round(videoBitrate)}k`,
-    '-preset', 'medium',
-    '-vf', `scale=-2:${resolution}`,
-    '-movflags', '+faststart',
-  );
-
-  if (removeAudio) {
-    args.push('-an');
-  } else {
-    args.push('-c:a', 'aac', '-b:a', `${audioBitrate}k`);
+  return runFfmpegJob({ label: `Converting ${file.name} to ${format.label}`, signal, inputBytes: file.size, onProgress }, async (ffmpegInstance, workDir, reportProgress) => {
+    if (overlay) {
+      await ffmpegInstance.writeFile(`${workDir}/${OVERLAY_FILENAME}`, await fetchFile(overlay.image));
+    }
+    const { output } = await runAnimationEncode(createWasmRunner(ffmpegInstance), {
+      input: await mountInput(ffmpegInstance, file),
+      palette: `${workDir}/palette.png`,
+      output: `${workDir}/output.${format.extension}`,
+      settings,
+      overlay: overlay ? { file: `${workDir}/${OVERLAY_FILENAME}`, placement: overlay } : null,
+    }, reportProgress);
+    return new Blob([output.buffer], { type: format.mimeType });
+  });
+};
+
+interface AudioExtractSettings extends AudioSettings {
+  audioFormat: AudioFormat;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Exports only the (trimmed) audio track, with the same stream choice,
+ * bitrate, channel and filter options as video compression.
+ */
+export const extractAudio = (
+  file: File,
+  duration: number,
+  settings: AudioExtractSettings,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const range = getTrimRange(duration, settings.startTime, settings.endTime);
+  if (range.error) {
+    return Promise.reject(new Error(`Invalid trim range. ${range.error}`));
   }
 
-  args.push(outputFilename);
+  const format = AUDIO_FORMATS[settings.audioFormat];
+
+  const outputBytes = (range.duration * settings.audioBitrate * 1000) / 8;
+  return runFfmpegJob({ label: `Extracting audio from ${file.name}`, signal, inputBytes: file.size, outputBytes, onProgress }, async (ffmpegInstance, workDir, reportProgress) => {
+    const inputFilename = await mountInput(ffmpegInstance, file);
+    const outputFilename = `${workDir}/output.${format.extension}`;
+
+    const progressListener = ({ progress }: { progress: number }) => {
+      reportProgress({ percentage: Math.round(Math.min(Math.max(progress, 0), 1) * 100), step: 'Extracting audio...' });
+    };
+    ffmpegInstance.on('progress', progressListener);
+    try {
+      reportProgress({ percentage: 0, step: 'Extracting audio...' });
+      const inputArgs = trimInputArgs(inputFilename, range.start, range.end < duration ? range.duration : null);
+      const exitCode = await ffmpegInstance.exec(buildAudioExtractArgs(inputArgs, outputFilename, range.duration, settings));
+      // FFmpeg refuses to write an output without streams, e.g. when the source is silent.
+      if (exitCode !== 0) {
+        throw new Error('Could not extract audio. Make sure the video has an audio track.');
+      }
+    } finally {
+      ffmpegInstance.off('progress', progressListener);
+    }
+
+    const data = (await ffmpegInstance.readFile(outputFilename)) as Uint8Array;
+    reportProgress({ percentage: 100 });
+    return new Blob([data.buffer], { type: format.mimeType });
+  });
+};
 
-  await ffmpegInstance.exec(args);
+interface QualityOptions {
+  clipStart: number;
+  clipDuration: number | null; // null when the encode runs to the end of the source
+  fps: number;
+  // The reframe filter of the encode, so the source is compared in the same framing.
+  referenceFilter: string | null;
+  metrics: QualityMetric[];
+}
 
-  ffmpegInstance.off('progress', progressListener);
+const QUALITY_PARSERS: Record<QualityMetric, (log: string) => { frame: number; value: number }[]> = {
+  ssim: parseSsimLog,
+  psnr: parsePsnrLog,
+  vmaf: parseVmafLog,
+};
 
-  const data = await ffmpegInstance.readFile(outputFilename);
-  await ffmpegInstance.deleteFile(inputFilename);
-  await ffmpegInstance.deleteFile(outputFilename);
+/**
+ * Scores a finished video encode against the trimmed source. Decoding both
+ * files frame by frame makes this about as slow as the encode itself.
+ */
+export const measureQuality = (
+  original: File,
+  encoded: Blob,
+  options: QualityOptions,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+): Promise<QualityReport> => {
+  const job = { label: `Measuring quality of ${original.name}`, signal, onProgress };
+
+  return runFfmpegJob(job, async (ffmpegInstance, workDir, reportProgress) => {
+    const inputFilename = await mountInput(ffmpegInstance, original);
+    const encodedFilename = await mountInput(ffmpegInstance, encoded, `encoded.${getFileExtension(encoded.type)}`);
+
+    const progressListener = ({ progress }: { progress: number }) => {
+      reportProgress({ percentage: Math.round(Math.min(Math.max(progress, 0), 1) * 100), step: 'Comparing frames...' });
+    };
+    ffmpegInstance.on('progress', progressListener);
+    try {
+      reportProgress({ percentage: 0, step: 'Comparing frames...' });
+      const exitCode = await ffmpegInstance.exec(buildQualityArgs({
+        distorted: encodedFilename,
+        reference: inputFilename,
+        clipStart: options.clipStart,
+        clipDuration: options.clipDuration,
+        referenceFilter: options.referenceFilter,
+        metrics: options.metrics,
+        logDir: workDir,
+      }));
+      if (exitCode !== 0) {
+        throw new Error('Could not compare the videos. The compressed file might not be readable.');
+      }
+    } finally {
+      ffmpegInstance.off('progress', progressListener);
+    }
 
-  return new Blob([(data as Uint8Array).buffer], { type: 'video/mp4' });
+    const scores: Partial<Record<QualityMetric, { frame: number; value: number }[]>> = {};
+    for (const metric of options.metrics) {
+      const log = await ffmpegInstance.readFile(qualityLogPath(workDir, metric), 'utf8');
+      scores[metric] = QUALITY_PARSERS[metric](log as string);
+    }
+    reportProgress({ percentage: 100 });
+    return summarizeQuality(scores, options.fps);
+  });
 };
 
-interface GifSettings {
-  resolution: number;
+interface ComplexityOptions {
+  clipStart: number;
+  clipDuration: number;
   fps: number;
-  startTime: string;
-  endTime: string;
+  displayAspect: number; // width / height as displayed
+  outputFormat: OutputFormat;
 }
 
-export const convertToGif = async (
+/**
+ * Measures how this clip's quality grows with the bitrate: a few seconds
+ * sampled across the trim are encoded at each of SAMPLE_BITS_PER_PIXEL and
+ * scored with SSIM. Needs the ssim filter.
+ */
+export const analyzeComplexity = (
   file: File,
-  settings: GifSettings,
-  onProgress: (progress: { percentage: number; step: string }) => void
-): Promise<Blob> => {
-  if (!ffmpeg) {
-    await loadFfmpeg();
-  }
-  const ffmpegInstance = ffmpeg!;
-
-  const { resolution, fps, startTime, endTime } = settings;
-
-  const inputFilename = 'input.video';
-  const paletteFilename = 'palette.png';
-  const outputFilename = 'output.gif';
-
-  await ffmpegInstance.writeFile(inputFilename, await fetchFile(file));
-
-  // Pass 1: Generate palette for better quality
-  onProgress({ percentage: 0, step: 'Generating color palette...' });
-  const paletteArgs = ['-y'];
-  if (startTime) paletteArgs.push('-ss', startTime);
-  paletteArgs.push('-i', inputFilename);
-  if (endTime) paletteArgs.push('-to', endTime);
-  paletteArgs.push(
-    '-vf', `fps=${fps},scale=${resolution}:-1:flags=lanczos,palettegen`,
-    paletteFilename
-  );
-  await ffmpegInstance.exec(paletteArgs);
-  onProgress({ percentage: 50, step: 'Generating color palette...' });
-
-  // Pass 2: Convert to GIF using the palette
-  onProgress({ percentage: 50, step: 'Converting video to GIF...' });
-  const gifArgs = [];
-  if (startTime) gifArgs.push('-ss', startTime);
-  gifArgs.push('-i', inputFilename, '-i', paletteFilename);
-  if (endTime) gifArgs.push('-to', endTime);
-  gifArgs.push(
-    '-filter_complex', `fps=${fps},scale=${resolution}:-1:flags=lanczos[x];[x][1:v]paletteuse`,
-    outputFilename
-  );
-  await ffmpegInstance.exec(gifArgs);
-  onProgress({ percentage: 100, step: 'Finalizing...' });
-
-  const data = await ffmpegInstance.readFile(outputFilename);
-
-  await ffmpegInstance.deleteFile(inputFilename);
-  await ffmpegInstance.deleteFile(paletteFilename);
-  await ffmpegInstance.deleteFile(outputFilename);
-
-  return new Blob([(data as Uint8Array).buffer], { type: 'image/gif' });
-};
+  options: ComplexityOptions,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+): Promise<CurvePoint[]> =>
+  runFfmpegJob({ label: `Analyzing ${file.name}`, signal, onProgress }, async (ffmpegInstance, workDir, reportProgress) => {
+    const inputFilename = await mountInput(ffmpegInstance, file);
+    const sampleFilename = `${workDir}/sample.mkv`;
+    const windows = getSampleWindows(options.clipStart, options.clipDuration);
+    const sampleDuration = windows.reduce((total, window) => total + window.duration, 0);
+    const frame = getSampleSize(options.displayAspect);
+    const { mode, threads } = getCoreInfo();
+    // Cutting the sample, then an encode and a comparison per bitrate.
+    const stepCount = 1 + SAMPLE_BITS_PER_PIXEL.length * 2;
+
+    reportProgress({ percentage: 0, step: 'Sampling the clip...' });
+    if (await ffmpegInstance.exec(buildSampleArgs(inputFilename, windows, sampleFilename)) !== 0) {
+      throw new Error('Could not read samples from this video.');
+    }
+
+    const points: CurvePoint[] = [];
+    for (const [i, bitsPerPixel] of SAMPLE_BITS_PER_PIXEL.entries()) {
+      const step = `Test encode ${i + 1} of ${SAMPLE_BITS_PER_PIXEL.length}...`;
+      const encodedFilename = `${workDir}/sample-${i}.${OUTPUT_FORMATS[options.outputFormat].extension}`;
+      const bitrate = getBitrateForBitsPerPixel(bitsPerPixel, frame, options.fps);
+      reportProgress({ percentage: Math.round(((1 + i * 2) / stepCount) * 100), step });
+      const encodeArgs = buildSampleEncodeArgs(sampleFilename, encodedFilename, options.outputFormat, bitrate, mode === 'multi-thread' ? threads : null);
+      if (await ffmpegInstance.exec(encodeArgs) !== 0) {
+        throw new Error('A test encode failed. Try another output format.');
+      }
+      const encoded = (await ffmpegInstance.readFile(encodedFilename)) as Uint8Array;
+
+      reportProgress({ percentage: Math.round(((2 + i * 2) / stepCount) * 100), step });
+      const exitCode = await ffmpegInstance.exec(buildQualityArgs({
+        distorted: encodedFilename,
+        reference: sampleFilename,
+        clipStart: 0,
+        clipDuration: null,
+        referenceFilter: null,
+        metrics: ['ssim'],
+        logDir: workDir,
+      }));
+      if (exitCode !== 0) {
+        throw new Error('Could not score a test encode.');
+      }
+      const scores = parseSsimLog((await ffmpegInstance.readFile(qualityLogPath(workDir, 'ssim'), 'utf8')) as string);
+      await ffmpegInstance.deleteFile(encodedFilename);
+      if (scores.length === 0) continue;
+
+      // Short encodes miss their bitrate, so the point uses what was actually spent.
+      points.push({
+        bitsPerPixel: (encoded.byteLength * 8) / (frame.width * frame.height * options.fps * sampleDuration),
+        ssim: scores.reduce((total, score) => total + score.value, 0) / scores.length,
+      });
+    }
+
+    if (points.length === 0) {
+      throw new Error('Could not score any test encode.');
+    }
+    reportProgress({ percentage: 100 });
+    return toCurve(points);
+  });
@@ -0,0 +1,149 @@
+import type { HistoryEntry } from '../types';
+import type { ZipEntry } from './zipService';
+
+const DB_NAME = 'vidwa-history';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const OUTPUTS_STORE = 'outputs';
+const QUOTA_KEY = 'historyQuotaMB';
+
+export const HISTORY_QUOTA_OPTIONS = [100, 250, 500, 1024, 2048]; // MB
+const DEFAULT_QUOTA_MB = 500;
+
+interface StoredOutputs {
+  id: string;
+  files: ZipEntry[];
+}
+
+export const loadHistoryQuotaMB = (): number => {
+  const saved = Number(localStorage.getItem(QUOTA_KEY));
+  return HISTORY_QUOTA_OPTIONS.includes(saved) ? saved : DEFAULT_QUOTA_MB;
+};
+
+export const saveHistoryQuotaMB = (quotaMB: number) => {
+  localStorage.setItem(QUOTA_KEY, String(quotaMB));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(OUTPUTS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again, e.g. after the user allows storage.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const isQuotaError = (err: unknown) => err instanceof DOMException && err.name === 'QuotaExceededError';
+
+/** Past jobs, newest first. */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+  const entries = await requestResult<HistoryEntry[]>(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getHistoryOutputs = async (id: string): Promise<ZipEntry[]> => {
+  const db = await openDatabase();
+  const stored = await requestResult<StoredOutputs | undefined>(db.transaction(OUTPUTS_STORE).objectStore(OUTPUTS_STORE).get(id));
+  if (!stored) {
+    throw new Error('The files of this job are no longer stored. The browser may have cleared them.');
+  }
+  return stored.files;
+};
+
+/**
+ * Stores a finished job and its outputs, dropping the oldest jobs until
+ * everything fits in `quotaMB`. Resolves to false when the outputs alone are
+ * larger than the quota, in which case nothing is stored.
+ */
+export const addHistoryEntry = async (entry: HistoryEntry, files: ZipEntry[], quotaMB: number): Promise<boolean> => {
+  const quota = quotaMB * 1024 * 1024;
+  if (entry.outputSize > quota) return false;
+
+  const db = await openDatabase();
+  // Ask once to be exempt from automatic eviction; browsers may decline silently.
+  if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+    await navigator.storage.persist().catch(() => false);
+  }
+
+  let used = entry.outputSize;
+  const evicted = (await listHistory()).filter((existing) => {
+    used += existing.outputSize;
+    return used > quota;
+  });
+
+  const transaction = db.transaction([ENTRIES_STORE, OUTPUTS_STORE], 'readwrite');
+  for (const old of evicted) {
+    transaction.objectStore(ENTRIES_STORE).delete(old.id);
+    transaction.objectStore(OUTPUTS_STORE).delete(old.id);
+  }
+  transaction.objectStore(ENTRIES_STORE).put(entry);
+  transaction.objectStore(OUTPUTS_STORE).put({ id: entry.id, files } satisfies StoredOutputs);
+  try {
+    await transactionDone(transaction);
+  } catch (err) {
+    if (isQuotaError(err)) {
+      throw new Error('The browser ran out of storage for the history. Lower the history limit or clear old jobs.');
+    }
+    throw err;
+  }
+  return true;
+};
+
+export const deleteHistoryEntries = async (ids: string[]) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES_STORE, OUTPUTS_STORE], 'readwrite');
+  for (const id of ids) {
+    transaction.objectStore(ENTRIES_STORE).delete(id);
+    transaction.objectStore(OUTPUTS_STORE).delete(id);
+  }
+  await transactionDone(transaction);
+};
+
+export const clearHistory = async () => {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES_STORE, OUTPUTS_STORE], 'readwrite');
+  transaction.objectStore(ENTRIES_STORE).clear();
+  transaction.objectStore(OUTPUTS_STORE).clear();
+  await transactionDone(transaction);
+};
+
+/**
+ * Applies a lowered quota to what is already stored, oldest jobs first.
+ * Returns the ids that were removed.
+ */
+export const trimHistory = async (quotaMB: number): Promise<string[]> => {
+  const quota = quotaMB * 1024 * 1024;
+  let used = 0;
+  const evicted = (await listHistory()).filter((entry) => {
+    used += entry.outputSize;
+    return used > quota;
+  }).map((entry) => entry.id);
+  if (evicted.length > 0) {
+    await deleteHistoryEntries(evicted);
+  }
+  return evicted;
+};
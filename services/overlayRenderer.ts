@@ -0,0 +1,46 @@
+// Captions are drawn in the browser rather than with FFmpeg's drawtext, which
+// would need a font file inside the wasm filesystem.
+const FONT_SIZE = 96; // px; the encoder scales the image to the chosen size anyway
+const LINE_HEIGHT = 1.2;
+const PADDING = FONT_SIZE * 0.25;
+const FONT = `700 ${FONT_SIZE}px Inter, sans-serif`;
+
+/**
+ * Renders caption text (one line per newline) as white, outlined text on a
+ * transparent PNG, ready to be used like an uploaded logo.
+ */
+export const renderTextOverlay = async (text: string): Promise<Blob> => {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    throw new Error('Watermark text is empty.');
+  }
+  // Measuring before the web font arrives would size the canvas for the fallback font.
+  await document.fonts.ready;
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not render the watermark text.');
+  }
+  context.font = FONT;
+  const width = Math.max(...lines.map((line) => context.measureText(line).width));
+  canvas.width = Math.ceil(width + PADDING * 2);
+  canvas.height = Math.ceil(lines.length * FONT_SIZE * LINE_HEIGHT + PADDING * 2);
+
+  // Resizing the canvas resets the context state.
+  context.font = FONT;
+  context.textBaseline = 'top';
+  context.lineJoin = 'round';
+  context.lineWidth = FONT_SIZE / 10;
+  context.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+  context.fillStyle = '#ffffff';
+  lines.forEach((line, i) => {
+    const y = PADDING + i * FONT_SIZE * LINE_HEIGHT;
+    context.strokeText(line, PADDING, y);
+    context.fillText(line, PADDING, y);
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not render the watermark text.'))), 'image/png');
+  });
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { PresetSettings } from '../types';
+import { BUILT_IN_PRESETS, parsePresetFile, sanitizePresetSettings, withValidSettings } from './presetStore';
+
+const reference: PresetSettings = {
+  resolution: 720,
+  removeAudio: false,
+  targetSizeMB: 8,
+  convertToGif: false,
+  gifFps: 15,
+  gifResolution: 480,
+  animationFormat: 'gif',
+  animationLoop: 0,
+  animationPingPong: false,
+  animationSpeed: 1,
+  webpQuality: 75,
+  webpLossless: false,
+  animationSizeLimit: false,
+  animationTargetSizeMB: 5,
+  twoPass: false,
+  splitForStatus: false,
+  segmentLength: 60,
+  aspectRatio: 'original',
+  reframeMode: 'crop',
+  padColor: '#000000',
+  cropOffset: 0.5,
+  outputFormat: 'h264',
+  rateControl: 'target',
+  crf: 23,
+  audioBitrate: 128,
+  audioChannels: 'stereo',
+  normalizeLoudness: false,
+  fadeAudio: false,
+  extractAudio: false,
+  audioFormat: 'm4a',
+  overlayType: 'none',
+  overlayText: '',
+  overlayPosition: 'bottom-right',
+  overlaySize: 0.2,
+  overlayOpacity: 0.8,
+  overlayStartTime: '',
+  overlayEndTime: '',
+  subtitleMode: 'burn',
+  subtitleFont: 'sans',
+  subtitleSize: 'medium',
+  subtitlePosition: 'bottom',
+};
+
+describe('sanitizePresetSettings', () => {
+  it('keeps values every setting can take', () => {
+    const raw = { outputFormat: 'vp9', aspectRatio: '9:16', audioFormat: 'opus', padColor: '#1A2b3c', crf: 31, cropOffset: 0, overlayText: 'hi' };
+    expect(sanitizePresetSettings(raw, reference)).toEqual(raw);
+  });
+
+  it('drops unknown keys, wrong types and choices this build lacks', () => {
+    expect(sanitizePresetSettings({
+      startTime: '0:10',
+      rotate: 90,
+      resolution: '720',
+      twoPass: 1,
+      outputFormat: 'prores',
+      animationFormat: 'avif',
+      audioFormat: 'flac',
+      aspectRatio: '21:9',
+      subtitleFont: 'comic',
+      overlayPosition: 'toString',
+    }, reference)).toEqual({});
+  });
+
+  it('drops numbers that are not finite, out of range or fractional where whole', () => {
+    expect(sanitizePresetSettings({
+      targetSizeMB: Number.NaN,
+      resolution: 1e9,
+      crf: 23.5,
+      gifFps: 0,
+      overlayOpacity: 2,
+      cropOffset: -0.1,
+      animationSpeed: 1.5,
+    }, reference)).toEqual({ animationSpeed: 1.5 });
+  });
+
+  it('only lets a plain colour into the pad filter', () => {
+    expect(sanitizePresetSettings({ padColor: 'black,drawtext=text=x' }, reference)).toEqual({});
+  });
+
+  it('accepts every built-in preset as it is', () => {
+    for (const preset of BUILT_IN_PRESETS) {
+      expect(sanitizePresetSettings(preset.settings, reference)).toEqual(preset.settings);
+    }
+  });
+});
+
+describe('withValidSettings', () => {
+  it('puts the reference value in place of each unusable one', () => {
+    const settings = { ...reference, outputFormat: 'prores', webpQuality: 500, audioBitrate: 96, startTime: '0:10' } as unknown as PresetSettings;
+    expect(withValidSettings(settings, reference)).toEqual({ ...reference, audioBitrate: 96, startTime: '0:10' });
+  });
+});
+
+describe('parsePresetFile', () => {
+  it('reads the valid part of each preset and skips nameless ones', () => {
+    const file = JSON.stringify({
+      presets: [
+        { name: ' Team ', settings: { outputFormat: 'hevc', crf: 28, audioChannels: 'surround' } },
+        { name: '', settings: {} },
+      ],
+    });
+    const [preset, ...rest] = parsePresetFile(file, reference);
+    expect(rest).toEqual([]);
+    expect(preset).toMatchObject({ name: 'Team', builtIn: false, settings: { outputFormat: 'hevc', crf: 28 } });
+  });
+});
@@ -0,0 +1,257 @@
+import type { CompressionSettings, Preset, PresetSettings } from '../types';
+import { ANIMATION_FORMATS, ASPECT_RATIOS, AUDIO_FORMATS, OUTPUT_FORMATS, SUBTITLE_FONTS } from './encodePipeline';
+
+const PRESETS_KEY = 'compressionPresets';
+const DEFAULT_PRESET_KEY = 'defaultPresetId';
+const PRESET_QUERY_PARAM = 'preset';
+const PRESET_FILE_VERSION = 1;
+
+const builtIn = (id: string, name: string, settings: Partial<PresetSettings>): Preset => ({
+  id: `builtin-${id}`,
+  name,
+  settings,
+  builtIn: true,
+});
+
+// Size targets sit a little under each service's limit, since the encode can overshoot slightly.
+export const BUILT_IN_PRESETS: Preset[] = [
+  builtIn('quality', 'Best Quality', { resolution: 720, targetSizeMB: 12, convertToGif: false, extractAudio: false }),
+  builtIn('balanced', 'Balanced', { resolution: 720, targetSizeMB: 8, convertToGif: false, extractAudio: false }),
+  builtIn('size', 'Smallest Size', { resolution: 480, targetSizeMB: 5, convertToGif: false, extractAudio: false }),
+  builtIn('whatsapp-status', 'WhatsApp Status', {
+    outputFormat: 'h264', rateControl: 'target', resolution: 720, targetSizeMB: 15,
+    splitForStatus: true, segmentLength: 60, convertToGif: false, extractAudio: false,
+  }),
+  builtIn('whatsapp-chat', 'WhatsApp Chat', {
+    outputFormat: 'h264', rateControl: 'target', resolution: 720, targetSizeMB: 15,
+    splitForStatus: false, convertToGif: false, extractAudio: false,
+  }),
+  builtIn('telegram', 'Telegram', {
+    outputFormat: 'h264', rateControl: 'crf', crf: 23, resolution: 1080,
+    splitForStatus: false, convertToGif: false, extractAudio: false,
+  }),
+  builtIn('discord-10', 'Discord 10MB', {
+    outputFormat: 'h264', rateControl: 'target', resolution: 720, targetSizeMB: 9, twoPass: true,
+    splitForStatus: false, convertToGif: false, extractAudio: false,
+  }),
+  builtIn('discord-25', 'Discord 25MB', {
+    outputFormat: 'h264', rateControl: 'target', resolution: 1080, targetSizeMB: 24, twoPass: true,
+    splitForStatus: false, convertToGif: false, extractAudio: false,
+  }),
+  builtIn('instagram-reels', 'Instagram Reels', {
+    outputFormat: 'h264', rateControl: 'crf', crf: 21, resolution: 1080, aspectRatio: '9:16', reframeMode: 'blur',
+    audioBitrate: 128, splitForStatus: false, convertToGif: false, extractAudio: false,
+  }),
+];
+
+// The values each choice may take. Presets are plain JSON from storage, files
+// and links, so a value this build doesn't know is as likely as a wrong type.
+const CHOICES: { [K in keyof PresetSettings]?: readonly string[] } = {
+  outputFormat: Object.keys(OUTPUT_FORMATS),
+  animationFormat: Object.keys(ANIMATION_FORMATS),
+  audioFormat: Object.keys(AUDIO_FORMATS),
+  aspectRatio: ['original', ...Object.keys(ASPECT_RATIOS)],
+  reframeMode: ['crop', 'blur', 'color'],
+  rateControl: ['target', 'crf', 'capped'],
+  audioChannels: ['mono', 'stereo'],
+  overlayType: ['none', 'image', 'text'],
+  overlayPosition: ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'],
+  subtitleMode: ['burn', 'soft'],
+  subtitleFont: Object.keys(SUBTITLE_FONTS),
+  subtitleSize: ['small', 'medium', 'large'],
+  subtitlePosition: ['bottom', 'top'],
+};
+
+interface NumberRange {
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+// Wide enough for anything the controls can set, narrow enough to keep FFmpeg's arguments sane.
+// The CRF range depends on the format, so App narrows it further.
+const RANGES: { [K in keyof PresetSettings]?: NumberRange } = {
+  resolution: { min: 144, max: 2160, integer: true },
+  targetSizeMB: { min: 1, max: 4096, integer: false },
+  gifFps: { min: 1, max: 50, integer: true },
+  gifResolution: { min: 64, max: 1920, integer: true },
+  animationLoop: { min: 0, max: 100, integer: true },
+  animationSpeed: { min: 0.25, max: 8, integer: false },
+  webpQuality: { min: 0, max: 100, integer: true },
+  animationTargetSizeMB: { min: 0.1, max: 4096, integer: false },
+  segmentLength: { min: 1, max: 600, integer: true },
+  cropOffset: { min: 0, max: 1, integer: false },
+  crf: { min: 0, max: 63, integer: true },
+  audioBitrate: { min: 32, max: 320, integer: true },
+  overlaySize: { min: 0.05, max: 0.6, integer: false },
+  overlayOpacity: { min: 0.1, max: 1, integer: false },
+};
+
+// Goes into an FFmpeg filter, so nothing but '#rrggbb' is let through.
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const isValidSetting = (key: keyof PresetSettings, value: unknown, reference: PresetSettings): boolean => {
+  if (typeof value !== typeof reference[key]) return false;
+  const choices = CHOICES[key];
+  if (choices) return choices.includes(value as string);
+  if (key === 'padColor') return COLOR_PATTERN.test(value as string);
+  if (typeof value !== 'number') return true;
+  const range = RANGES[key];
+  return Number.isFinite(value) && (!range || (value >= range.min && value <= range.max && (!range.integer || Number.isInteger(value))));
+};
+
+/**
+ * Keeps the keys of `raw` that `reference` also has, with a value of the same
+ * type that the setting can take. Anything else in a stored, imported or
+ * linked preset is dropped.
+ */
+export const sanitizePresetSettings = (raw: unknown, reference: PresetSettings): Partial<PresetSettings> => {
+  if (!raw || typeof raw !== 'object') return {};
+  const settings: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(key in reference) || !isValidSetting(key as keyof PresetSettings, value, reference)) continue;
+    settings[key] = value;
+  }
+  return settings as Partial<PresetSettings>;
+};
+
+/** Puts the value from `reference` wherever `settings` holds one that sanitizePresetSettings would drop. */
+export const withValidSettings = <T extends PresetSettings>(settings: T, reference: PresetSettings): T => {
+  const valid = { ...settings };
+  for (const key of Object.keys(reference) as (keyof PresetSettings)[]) {
+    if (!isValidSetting(key, settings[key], reference)) {
+      (valid as Record<string, unknown>)[key] = reference[key];
+    }
+  }
+  return valid;
+};
+
+export const toPresetSettings = (settings: CompressionSettings): PresetSettings => {
+  const { startTime, endTime, audioStreamIndex, rotate, flipHorizontal, flipVertical, ...presetSettings } = settings;
+  return presetSettings;
+};
+
+const toStoredPreset = (raw: unknown, reference: PresetSettings): Preset | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { name, settings } = raw as { name?: unknown; settings?: unknown };
+  if (typeof name !== 'string' || !name.trim()) return null;
+  return { id: crypto.randomUUID(), name: name.trim(), settings: sanitizePresetSettings(settings, reference), builtIn: false };
+};
+
+/** The user's saved presets, in their chosen order. */
+export const loadPresets = (reference: PresetSettings): Preset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((raw) => {
+      const preset = toStoredPreset(raw, reference);
+      // Keep the saved id so the default preset still points at it.
+      return preset ? [{ ...preset, id: typeof raw.id === 'string' ? raw.id : preset.id }] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (presets: Preset[]) => {
+  const saved = presets.filter((preset) => !preset.builtIn).map(({ id, name, settings }) => ({ id, name, settings }));
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(saved));
+};
+
+export const loadDefaultPresetId = (): string | null => localStorage.getItem(DEFAULT_PRESET_KEY);
+
+export const saveDefaultPresetId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(DEFAULT_PRESET_KEY, id);
+  } else {
+    localStorage.removeItem(DEFAULT_PRESET_KEY);
+  }
+};
+
+/**
+ * Adds imported presets to the saved ones. A preset named like an existing
+ * saved preset replaces its settings, so re-importing a team's file updates
+ * everyone's copy instead of piling up duplicates.
+ */
+export const mergePresets = (existing: Preset[], imported: Preset[]): Preset[] => {
+  const merged = [...existing];
+  for (const preset of imported) {
+    const index = merged.findIndex((current) => !current.builtIn && current.name === preset.name);
+    if (index === -1) {
+      merged.push(preset);
+    } else {
+      merged[index] = { ...merged[index], settings: preset.settings };
+    }
+  }
+  return merged;
+};
+
+export const exportPresetFile = (presets: Preset[]): Blob => {
+  const file = {
+    app: 'vidwa',
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, settings }) => ({ name, settings })),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+export const parsePresetFile = (text: string, reference: PresetSettings): Preset[] => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  const presets = (file as { presets?: unknown } | null)?.presets;
+  if (!Array.isArray(presets)) {
+    throw new Error('This file does not contain any presets.');
+  }
+  const parsed = presets.flatMap((raw) => toStoredPreset(raw, reference) ?? []);
+  if (parsed.length === 0) {
+    throw new Error('None of the presets in this file could be read.');
+  }
+  return parsed;
+};
+
+// base64url of the UTF-8 JSON, so names in any script survive the link.
+const encodePayload = (value: unknown): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodePayload = (payload: string): unknown => {
+  const binary = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+  return JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))));
+};
+
+export const createPresetLink = (preset: Preset): string => {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(PRESET_QUERY_PARAM, encodePayload({ name: preset.name, settings: preset.settings }));
+  return url.href;
+};
+
+/**
+ * Returns the preset carried by a shared link, if the page was opened with
+ * one, and removes it from the URL so a reload doesn't import it again.
+ */
+export const takeLinkedPreset = (reference: PresetSettings): Preset | null => {
+  const params = new URLSearchParams(window.location.search);
+  const payload = params.get(PRESET_QUERY_PARAM);
+  if (payload === null) return null;
+
+  params.delete(PRESET_QUERY_PARAM);
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+
+  let raw: unknown;
+  try {
+    raw = decodePayload(payload);
+  } catch {
+    throw new Error('The preset link is incomplete or damaged.');
+  }
+  const preset = toStoredPreset(raw, reference);
+  if (!preset) {
+    throw new Error('The preset link is incomplete or damaged.');
+  }
+  return preset;
+};
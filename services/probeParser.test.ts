@@ -0,0 +1,113 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parseProbeOutput, parseVideoInfo } from './probeParser';
+
+// Recorded stderr of `ffmpeg -i <file>`, one file per case.
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/probe/${name}.txt`, import.meta.url), 'utf8');
+
+describe('parseProbeOutput', () => {
+  it('reads the rotation of a phone clip from the display matrix', () => {
+    // The display matrix turns counter-clockwise; players and VideoInfo turn clockwise.
+    const info = parseProbeOutput(fixture('rotated-displaymatrix'));
+    expect(info).toMatchObject({
+      container: 'mov,mp4,m4a,3gp,3g2,mj2',
+      duration: 12.47,
+      durationMs: 12470,
+      bitrate: 17243,
+      width: 1920,
+      height: 1080,
+      rotation: 90,
+      codec: 'hevc',
+      pixelFormat: 'yuv420p',
+      fps: 29.97,
+      videoBitrate: 16990,
+      isVariableFrameRate: false,
+    });
+    expect(info.audioStreams).toEqual([
+      { index: 1, codec: 'aac', channels: 2, channelLayout: 'stereo', sampleRate: 48000, bitrate: 256, language: 'eng', isDefault: true },
+    ]);
+  });
+
+  it('falls back to the legacy rotate tag of older builds', () => {
+    const info = parseProbeOutput(fixture('legacy-rotate-tag'));
+    expect(info).toMatchObject({ width: 1280, height: 720, rotation: 180, codec: 'h264', fps: 30.01, isVariableFrameRate: false });
+    expect(info.audioStreams[0]).toMatchObject({ channels: 1, channelLayout: 'mono', bitrate: 96 });
+  });
+
+  it('lists every audio and subtitle stream of a multi-track MKV', () => {
+    const info = parseProbeOutput(fixture('mkv-multitrack'));
+    expect(info).toMatchObject({
+      container: 'matroska,webm',
+      durationMs: 2530510,
+      width: 1920,
+      height: 800,
+      fps: 23.98,
+      rotation: 0,
+      videoBitrate: null,
+    });
+    expect(info.audioStreams).toEqual([
+      { index: 1, codec: 'eac3', channels: 6, channelLayout: '5.1(side)', sampleRate: 48000, bitrate: 640, language: 'eng', isDefault: true },
+      { index: 2, codec: 'aac', channels: 2, channelLayout: 'stereo', sampleRate: 44100, bitrate: null, language: 'jpn', isDefault: false },
+    ]);
+    expect(info.subtitleStreams).toEqual([
+      { index: 3, codec: 'subrip', language: 'eng', title: 'English', isDefault: true },
+      { index: 4, codec: 'ass', language: 'spa', title: 'Español (Latinoamérica)', isDefault: false },
+      { index: 5, codec: 'hdmv_pgs_subtitle', language: null, title: null, isDefault: false },
+    ]);
+  });
+
+  it('flags a variable frame rate', () => {
+    const info = parseProbeOutput(fixture('vfr-screen-recording'));
+    expect(info).toMatchObject({ width: 1080, height: 2400, fps: 27.43, isVariableFrameRate: true });
+  });
+
+  it('does not take an interlaced field rate of twice the fps for VFR', () => {
+    const info = parseProbeOutput(fixture('interlaced-broadcast'));
+    expect(info).toMatchObject({
+      container: 'mpegts',
+      durationMs: 60040,
+      width: 1920,
+      height: 1080,
+      fps: 25,
+      isVariableFrameRate: false,
+    });
+    expect(info.audioStreams.map((stream) => [stream.index, stream.codec, stream.channels, stream.language])).toEqual([
+      [1, 'mp2', 2, 'deu'],
+      [2, 'ac3', 6, 'deu'],
+    ]);
+    expect(info.subtitleStreams).toEqual([{ index: 3, codec: 'dvb_teletext', language: 'deu', title: null, isDefault: false }]);
+  });
+
+  it('skips attached cover art for the real video stream', () => {
+    const info = parseProbeOutput(fixture('cover-art'));
+    expect(info).toMatchObject({ width: 1280, height: 720, codec: 'h264', fps: 30, videoBitrate: 1623 });
+    expect(info.audioStreams.map((stream) => stream.index)).toEqual([2]);
+  });
+
+  it('leaves an unknown duration at zero and expands "1k" rates', () => {
+    const info = parseProbeOutput(fixture('duration-na'));
+    expect(info).toMatchObject({ durationMs: 0, duration: 0, bitrate: null, width: 1280, height: 720, codec: 'vp8', fps: 1000, isVariableFrameRate: false });
+    expect(info.audioStreams[0]).toMatchObject({ codec: 'opus', channels: 1, bitrate: null });
+  });
+
+  it('expands "90k" timebases without taking them for the frame rate', () => {
+    // Cover art only reports tbr, here 90k; the real stream still wins.
+    expect(parseProbeOutput(fixture('cover-art')).fps).toBe(30);
+    expect(parseProbeOutput(fixture('rotated-displaymatrix')).fps).toBe(29.97);
+  });
+});
+
+describe('parseVideoInfo', () => {
+  it('accepts a complete probe', () => {
+    expect(parseVideoInfo(fixture('mkv-multitrack')).duration).toBeCloseTo(2530.51);
+  });
+
+  it('rejects a file without a known duration', () => {
+    expect(() => parseVideoInfo(fixture('duration-na'))).toThrow(/Could not determine the video duration/);
+  });
+
+  it('rejects a file without a video stream', () => {
+    const audioOnly = fixture('mkv-multitrack').replace(/^ {2}Stream #0:0: Video: .*$/m, '');
+    expect(() => parseVideoInfo(audioOnly)).toThrow(/No video stream found/);
+  });
+});
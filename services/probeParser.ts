@@ -0,0 +1,300 @@
+export interface AudioStreamInfo {
+  index: number;
+  codec: string;
+  channels: number;
+  channelLayout: string;
+  sampleRate: number;
+  bitrate: number | null; // kbit/s
+  language: string | null;
+  isDefault: boolean;
+}
+
+export interface SubtitleStreamInfo {
+  index: number;
+  codec: string;
+  language: string | null;
+  title: string | null;
+  isDefault: boolean;
+}
+
+export interface VideoInfo {
+  duration: number; // seconds, including the fractional part
+  durationMs: number;
+  width: number;
+  height: number;
+  fps: number;
+  codec: string;
+  pixelFormat: string | null;
+  // Clockwise rotation (0, 90, 180 or 270) a player applies when displaying the stream.
+  rotation: number;
+  bitrate: number | null; // overall kbit/s
+  videoBitrate: number | null; // kbit/s
+  container: string;
+  audioStreams: AudioStreamInfo[];
+  subtitleStreams: SubtitleStreamInfo[];
+  isVariableFrameRate: boolean;
+}
+
+interface RawStream {
+  index: number;
+  type: string;
+  language: string | null;
+  description: string;
+  metadata: Record<string, string>;
+  displayMatrixRotation: number | null;
+}
+
+// Frame rates further apart than this are treated as variable frame rate.
+const VFR_TOLERANCE = 0.01;
+
+const STREAM_PATTERN = /^\s*Stream #\d+:(\d+)(?:\[0x[0-9a-f]+\])?(?:\(([^)]+)\))?: (\w+): (.*)$/i;
+const DURATION_PATTERN = /Duration: (?:(\d+):(\d{2}):(\d{2}(?:\.\d+)?)|N\/A)(?:, start: [-\d.]+)?(?:, bitrate: (\d+) kb\/s)?/;
+const INPUT_PATTERN = /^Input #0, (.+), from '/;
+const METADATA_PATTERN = /^\s+([\w-]+)\s*: (.*)$/;
+const DISPLAY_MATRIX_PATTERN = /displaymatrix: rotation of (-?[\d.]+) degrees/;
+
+/**
+ * Splits a stream description on commas that are not nested inside
+ * parentheses or brackets, e.g. "yuv420p(tv, bt709)" stays one part.
+ */
+const splitTopLevel = (description: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of description) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+};
+
+// FFmpeg abbreviates large rates, e.g. "90k tbn" or "1k fps".
+const parseRate = (value: string): number => {
+  const number = parseFloat(value);
+  return value.endsWith('k') ? number * 1000 : number;
+};
+
+const findNumber = (parts: string[], pattern: RegExp): number | null => {
+  for (const part of parts) {
+    const match = part.match(pattern);
+    if (match) {
+      return parseRate(match[1]);
+    }
+  }
+  return null;
+};
+
+const CHANNEL_LAYOUTS: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  '2.1': 3,
+  '3.0': 3,
+  quad: 4,
+  '4.0': 4,
+  '4.1': 5,
+  '5.0': 5,
+  '5.1': 6,
+  '6.1': 7,
+  '7.1': 8,
+};
+
+const parseChannels = (layout: string): number => {
+  const explicit = layout.match(/^(\d+) channels/);
+  if (explicit) {
+    return parseInt(explicit[1], 10);
+  }
+  // Strip qualifiers such as "5.1(side)".
+  return CHANNEL_LAYOUTS[layout.replace(/\(.*\)$/, '')] ?? 0;
+};
+
+const normalizeRotation = (degrees: number): number => {
+  const quarterTurns = Math.round(degrees / 90);
+  return (((quarterTurns * 90) % 360) + 360) % 360;
+};
+
+const collectStreams = (lines: string[]): RawStream[] => {
+  const streams: RawStream[] = [];
+  let current: RawStream | null = null;
+
+  for (const line of lines) {
+    const streamMatch = line.match(STREAM_PATTERN);
+    if (streamMatch) {
+      current = {
+        index: parseInt(streamMatch[1], 10),
+        language: streamMatch[2] && streamMatch[2] !== 'und' ? streamMatch[2] : null,
+        type: streamMatch[3],
+        description: streamMatch[4],
+        metadata: {},
+        displayMatrixRotation: null,
+      };
+      streams.push(current);
+      continue;
+    }
+    if (!current) continue;
+    // Anything back at column zero ("Output #0", "At least one output...") ends the stream list.
+    if (!/^\s/.test(line)) {
+      current = null;
+      continue;
+    }
+    const displayMatrix = line.match(DISPLAY_MATRIX_PATTERN);
+    if (displayMatrix) {
+      current.displayMatrixRotation = parseFloat(displayMatrix[1]);
+      continue;
+    }
+    const metadata = line.match(METADATA_PATTERN);
+    if (metadata) {
+      current.metadata[metadata[1].toLowerCase()] = metadata[2].trim();
+    }
+  }
+  return streams;
+};
+
+/**
+ * Parses the stderr that `ffmpeg -i <file>` prints for its input. Fields the
+ * log does not contain are left at neutral values; deciding whether the
+ * result is usable is up to the caller.
+ */
+export const parseProbeOutput = (output: string): VideoInfo => {
+  const lines = output.split(/\r?\n/);
+
+  let container = '';
+  for (const line of lines) {
+    const inputMatch = line.match(INPUT_PATTERN);
+    if (inputMatch) {
+      container = inputMatch[1];
+      break;
+    }
+  }
+
+  let durationMs = 0;
+  let bitrate: number | null = null;
+  const durationMatch = output.match(DURATION_PATTERN);
+  if (durationMatch) {
+    if (durationMatch[1] !== undefined) {
+      const hours = parseInt(durationMatch[1], 10);
+      const minutes = parseInt(durationMatch[2], 10);
+      const seconds = parseFloat(durationMatch[3]);
+      durationMs = Math.round((hours * 3600 + minutes * 60 + seconds) * 1000);
+    }
+    if (durationMatch[4] !== undefined) {
+      bitrate = parseInt(durationMatch[4], 10);
+    }
+  }
+
+  const streams = collectStreams(lines);
+
+  // Cover art is exposed as a video stream too; prefer a real one.
+  const videoStream =
+    streams.find((stream) => stream.type === 'Video' && !stream.description.includes('(attached pic)')) ??
+    streams.find((stream) => stream.type === 'Video');
+
+  let width = 0;
+  let height = 0;
+  let fps = 0;
+  let codec = '';
+  let pixelFormat: string | null = null;
+  let rotation = 0;
+  let videoBitrate: number | null = null;
+  let isVariableFrameRate = false;
+
+  if (videoStream) {
+    const parts = splitTopLevel(videoStream.description);
+    codec = parts[0]?.split(' ')[0] ?? '';
+    if (parts[1] && !/^\d+x\d+/.test(parts[1])) {
+      pixelFormat = parts[1].match(/^[\w]+/)?.[0] ?? null;
+    }
+    for (const part of parts) {
+      const dimensions = part.match(/^(\d+)x(\d+)/);
+      if (dimensions) {
+        width = parseInt(dimensions[1], 10);
+        height = parseInt(dimensions[2], 10);
+        break;
+      }
+    }
+    const averageFps = findNumber(parts, /^([\d.]+k?) fps/);
+    const baseFps = findNumber(parts, /^([\d.]+k?) tbr/);
+    fps = averageFps ?? baseFps ?? 0;
+    // The average rate drifts away from the container's base rate when frame timing varies.
+    // Interlaced sources report the field rate as tbr, which is exactly double and not VFR.
+    if (averageFps && baseFps) {
+      const differs = (expected: number) => Math.abs(averageFps - expected) / expected > VFR_TOLERANCE;
+      isVariableFrameRate = differs(baseFps) && differs(baseFps / 2);
+    }
+    videoBitrate = findNumber(parts, /^(\d+) kb\/s/);
+
+    // Newer builds expose rotation only via the display matrix, which is counter-clockwise.
+    if (videoStream.displayMatrixRotation !== null) {
+      rotation = normalizeRotation(-videoStream.displayMatrixRotation);
+    } else if (videoStream.metadata.rotate) {
+      rotation = normalizeRotation(parseFloat(videoStream.metadata.rotate) || 0);
+    }
+  }
+
+  const audioStreams: AudioStreamInfo[] = streams
+    .filter((stream) => stream.type === 'Audio')
+    .map((stream) => {
+      const parts = splitTopLevel(stream.description);
+      const channelLayout = parts[2] ?? '';
+      return {
+        index: stream.index,
+        codec: parts[0]?.split(' ')[0] ?? '',
+        channels: parseChannels(channelLayout),
+        channelLayout,
+        sampleRate: findNumber(parts, /^(\d+) Hz/) ?? 0,
+        bitrate: findNumber(parts, /^(\d+) kb\/s/),
+        language: stream.language,
+        isDefault: stream.description.includes('(default)'),
+      };
+    });
+
+  const subtitleStreams: SubtitleStreamInfo[] = streams
+    .filter((stream) => stream.type === 'Subtitle')
+    .map((stream) => ({
+      index: stream.index,
+      codec: splitTopLevel(stream.description)[0]?.split(' ')[0] ?? '',
+      language: stream.language,
+      title: stream.metadata.title ?? null,
+      isDefault: stream.description.includes('(default)'),
+    }));
+
+  return {
+    duration: durationMs / 1000,
+    durationMs,
+    width,
+    height,
+    fps,
+    codec,
+    pixelFormat,
+    rotation,
+    bitrate,
+    videoBitrate,
+    container,
+    audioStreams,
+    subtitleStreams,
+    isVariableFrameRate,
+  };
+};
+
+/**
+ * Parses the probe output like `parseProbeOutput`, but rejects files the
+ * encoders cannot work with: no video stream or no known duration.
+ */
+export const parseVideoInfo = (output: string): VideoInfo => {
+  const info = parseProbeOutput(output);
+  if (info.width === 0 || info.height === 0) {
+    throw new Error('No video stream found. The file might be audio-only, corrupted or in an unsupported format.');
+  }
+  if (info.durationMs === 0) {
+    throw new Error('Could not determine the video duration. The file might be corrupted or still being recorded.');
+  }
+  return info;
+};
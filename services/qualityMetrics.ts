@@ -0,0 +1,136 @@
+// Objective quality metrics for a finished encode, measured against the
+// source with FFmpeg's ssim, psnr and (when compiled in) libvmaf filters.
+
+export type QualityMetric = 'ssim' | 'psnr' | 'vmaf';
+
+export const QUALITY_LOG_FILES: Record<QualityMetric, string> = {
+  ssim: 'ssim.log',
+  psnr: 'psnr.log',
+  vmaf: 'vmaf.json',
+};
+
+// Identical frames have infinite PSNR; clamp like most tools so averages stay finite.
+const MAX_PSNR = 100;
+
+export interface QualitySample {
+  time: number; // start of the second, on the encoded clip's timeline
+  ssim: number | null;
+  psnr: number | null;
+  vmaf: number | null;
+}
+
+export interface QualityReport {
+  ssim: number | null;
+  psnr: number | null;
+  vmaf: number | null;
+  samples: QualitySample[]; // one per second
+}
+
+export interface QualityCommandOptions {
+  distorted: string; // the encoded file
+  reference: string; // the source
+  clipStart: number;
+  clipDuration: number | null; // null reads the source to its end
+  // Applied to the source before comparing, e.g. the reframe of the encode.
+  referenceFilter: string | null;
+  metrics: QualityMetric[];
+  logDir: string; // where the per-frame logs are written
+}
+
+export const qualityLogPath = (logDir: string, metric: QualityMetric) => `${logDir}/${QUALITY_LOG_FILES[metric]}`;
+
+/**
+ * Builds the command that compares the encode (input 0) with the trimmed
+ * source (input 1). The source is brought to the encode's frame size first,
+ * then every metric gets its own copy of both streams and writes a per-frame
+ * log; nothing else is output.
+ */
+export const buildQualityArgs = (options: QualityCommandOptions): string[] => {
+  const { metrics } = options;
+  const referenceInput = [
+    ...(options.clipStart > 0 ? ['-ss', options.clipStart.toFixed(3)] : []),
+    ...(options.clipDuration !== null ? ['-t', options.clipDuration.toFixed(3)] : []),
+    '-i', options.reference,
+  ];
+  const labels = (prefix: string) => metrics.map((_, i) => `[${prefix}${i}]`).join('');
+  const comparisons = metrics.map((metric, i) => {
+    const pair = `[dist${i}][ref${i}]`;
+    if (metric === 'vmaf') {
+      return `${pair}libvmaf=log_path=${qualityLogPath(options.logDir, metric)}:log_fmt=json`;
+    }
+    return `${pair}${metric}=stats_file=${qualityLogPath(options.logDir, metric)}`;
+  });
+  const graph = [
+    `[1:v]${options.referenceFilter ?? 'null'}[source]`,
+    `[source][0:v]scale2ref=w=main_w:h=main_h:flags=bicubic[reference][encoded]`,
+    `[reference]setsar=1,split=${metrics.length}${labels('ref')}`,
+    `[encoded]setsar=1,split=${metrics.length}${labels('dist')}`,
+    ...comparisons,
+  ].join(';');
+
+  return ['-y', '-i', options.distorted, ...referenceInput, '-filter_complex', graph, '-an', '-f', 'null', '-'];
+};
+
+interface FrameScore {
+  frame: number; // zero-based
+  value: number;
+}
+
+// "n:1 Y:0.991 U:0.995 V:0.996 All:0.993 (21.4)"
+const SSIM_LINE = /^n:(\d+)\b.*\bAll:([\d.]+)/;
+// "n:1 mse_avg:2.51 mse_y:3.02 ... psnr_avg:44.13 psnr_y:43.33 ..."
+const PSNR_LINE = /^n:(\d+)\b.*\bpsnr_avg:([\d.]+|inf)/;
+
+const parseStatsLog = (log: string, pattern: RegExp): FrameScore[] =>
+  log.split('\n').flatMap((line) => {
+    const match = line.trim().match(pattern);
+    if (!match) return [];
+    const value = match[2] === 'inf' ? MAX_PSNR : Math.min(parseFloat(match[2]), MAX_PSNR);
+    return [{ frame: parseInt(match[1], 10) - 1, value }];
+  });
+
+export const parseSsimLog = (log: string): FrameScore[] => parseStatsLog(log, SSIM_LINE);
+
+export const parsePsnrLog = (log: string): FrameScore[] => parseStatsLog(log, PSNR_LINE);
+
+export const parseVmafLog = (log: string): FrameScore[] => {
+  const data = JSON.parse(log) as { frames?: { frameNum: number; metrics: { vmaf?: number } }[] };
+  return (data.frames ?? []).flatMap((frame) =>
+    typeof frame.metrics.vmaf === 'number' ? [{ frame: frame.frameNum, value: frame.metrics.vmaf }] : []
+  );
+};
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+
+/**
+ * Averages the per-frame scores over the whole clip and per second of it.
+ * `fps` maps frame numbers to time; a metric without frames stays null.
+ */
+export const summarizeQuality = (scores: Partial<Record<QualityMetric, FrameScore[]>>, fps: number): QualityReport => {
+  const seconds = new Map<number, Record<QualityMetric, number[]>>();
+  for (const metric of Object.keys(scores) as QualityMetric[]) {
+    for (const { frame, value } of scores[metric] ?? []) {
+      const second = Math.floor(frame / fps);
+      if (!seconds.has(second)) {
+        seconds.set(second, { ssim: [], psnr: [], vmaf: [] });
+      }
+      seconds.get(second)![metric].push(value);
+    }
+  }
+
+  const average = (metric: QualityMetric) => mean((scores[metric] ?? []).map((score) => score.value));
+  return {
+    ssim: average('ssim'),
+    psnr: average('psnr'),
+    vmaf: average('vmaf'),
+    samples: [...seconds.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([second, values]) => ({
+        time: second,
+        ssim: mean(values.ssim),
+        psnr: mean(values.psnr),
+        vmaf: mean(values.vmaf),
+      })),
+  };
+};
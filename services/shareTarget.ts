@@ -0,0 +1,52 @@
+// Written by public/sw.js when another app shares a video to the installed PWA.
+const SHARE_CACHE = 'vidwa-share-target';
+const SHARED_FILE_KEY = '/shared-video';
+const SHARED_QUERY_PARAM = 'shared';
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('Service worker registration failed:', err);
+    });
+  });
+};
+
+/**
+ * Returns the video handed over by the share target, if the page was opened
+ * that way, and removes it from the cache and the URL so a reload starts clean.
+ */
+export const takeSharedFile = async (): Promise<File | null> => {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has(SHARED_QUERY_PARAM) || typeof caches === 'undefined') return null;
+
+  params.delete(SHARED_QUERY_PARAM);
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+
+  const cache = await caches.open(SHARE_CACHE);
+  const response = await cache.match(SHARED_FILE_KEY);
+  if (!response) return null;
+  await cache.delete(SHARED_FILE_KEY);
+
+  const blob = await response.blob();
+  const name = decodeURIComponent(response.headers.get('X-File-Name') ?? 'shared-video.mp4');
+  return new File([blob], name, { type: blob.type || response.headers.get('Content-Type') || 'video/mp4' });
+};
+
+export const canShareFile = (file: File): boolean =>
+  typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] });
+
+/**
+ * Opens the system share sheet for a file. Resolves to false when the user
+ * dismisses the sheet, which is not an error.
+ */
+export const shareFile = async (file: File): Promise<boolean> => {
+  try {
+    await navigator.share({ files: [file], title: file.name });
+    return true;
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return false;
+    throw err;
+  }
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CurvePoint,
+  getBitsPerPixel,
+  getSampleWindows,
+  predictSsim,
+  recommendSettings,
+  RecommendationOptions,
+  toCurve,
+} from './sizeAdvisor';
+
+// A clip that reaches good quality between the second and third sample.
+const CURVE: CurvePoint[] = [
+  { bitsPerPixel: 0.02, ssim: 0.86 },
+  { bitsPerPixel: 0.05, ssim: 0.92 },
+  { bitsPerPixel: 0.1, ssim: 0.96 },
+  { bitsPerPixel: 0.2, ssim: 0.985 },
+];
+
+// A clip too busy to look good at any sampled bitrate.
+const LOW_CURVE: CurvePoint[] = [
+  { bitsPerPixel: 0.02, ssim: 0.8 },
+  { bitsPerPixel: 0.05, ssim: 0.86 },
+  { bitsPerPixel: 0.1, ssim: 0.9 },
+  { bitsPerPixel: 0.2, ssim: 0.93 },
+];
+
+const options = (overrides: Partial<RecommendationOptions> = {}): RecommendationOptions => ({
+  maxSizeMB: 38,
+  duration: 60,
+  audioBitrate: 128,
+  fps: 30,
+  outputs: [
+    { resolution: 1080, width: 1920, height: 1080 },
+    { resolution: 720, width: 1280, height: 720 },
+    { resolution: 480, width: 854, height: 480 },
+  ],
+  ...overrides,
+});
+
+describe('getSampleWindows', () => {
+  it('samples a short clip whole', () => {
+    expect(getSampleWindows(5, 6)).toEqual([{ start: 5, duration: 6 }]);
+  });
+
+  it('centers evenly spaced windows in the thirds of a long clip', () => {
+    expect(getSampleWindows(10, 60)).toEqual([
+      { start: 19, duration: 2 },
+      { start: 39, duration: 2 },
+      { start: 59, duration: 2 },
+    ]);
+  });
+});
+
+describe('getBitsPerPixel', () => {
+  it('spreads what the audio leaves over every pixel of every frame', () => {
+    // 8 MB over 64 s leaves 896 kbit/s for 640x400 at 25 fps.
+    expect(getBitsPerPixel(8, 64, 128, { width: 640, height: 400 }, 25)).toBeCloseTo(0.14);
+  });
+
+  it('is zero when the audio alone fills the size', () => {
+    expect(getBitsPerPixel(1, 600, 128, { width: 640, height: 400 }, 25)).toBe(0);
+  });
+});
+
+describe('toCurve', () => {
+  it('sorts the points and never lets quality drop as the bitrate rises', () => {
+    const points = [
+      { bitsPerPixel: 0.1, ssim: 0.95 },
+      { bitsPerPixel: 0.02, ssim: 0.85 },
+      { bitsPerPixel: 0.05, ssim: 0.84 },
+      { bitsPerPixel: 0.2, ssim: 0.97 },
+    ];
+    expect(toCurve(points)).toEqual([
+      { bitsPerPixel: 0.02, ssim: 0.85 },
+      { bitsPerPixel: 0.05, ssim: 0.85 },
+      { bitsPerPixel: 0.1, ssim: 0.95 },
+      { bitsPerPixel: 0.2, ssim: 0.97 },
+    ]);
+    expect(points[0].bitsPerPixel).toBe(0.1);
+  });
+});
+
+describe('predictSsim', () => {
+  it('hits the sampled points and interpolates on the logarithm of the bitrate', () => {
+    expect(predictSsim(CURVE, 0.1)).toBeCloseTo(0.96);
+    expect(predictSsim(CURVE, Math.sqrt(0.05 * 0.1))).toBeCloseTo(0.94);
+  });
+
+  it('extends the lowest segment below the sampled range', () => {
+    const slope = (0.92 - 0.86) / Math.log(0.05 / 0.02);
+    expect(predictSsim(CURVE, 0.01)).toBeCloseTo(0.86 + slope * Math.log(0.01 / 0.02));
+    expect(predictSsim(CURVE, 1e-9)).toBe(0);
+  });
+
+  it('levels off above the sampled range', () => {
+    expect(predictSsim(CURVE, 0.5)).toBe(0.985);
+  });
+
+  it('is zero without any bits for the video', () => {
+    expect(predictSsim(CURVE, 0)).toBe(0);
+  });
+});
+
+describe('recommendSettings', () => {
+  it('picks the highest resolution that looks good at the smallest size that looks excellent', () => {
+    const recommendation = recommendSettings(CURVE, options());
+    expect(recommendation).toMatchObject({ resolution: 720, targetSizeMB: 37 });
+    expect(recommendation!.ssim).toBeGreaterThanOrEqual(0.98);
+  });
+
+  it('keeps the size limit when excellent quality needs more', () => {
+    expect(recommendSettings(CURVE, options({ maxSizeMB: 30 }))).toMatchObject({ resolution: 720, targetSizeMB: 30 });
+  });
+
+  it('falls back to the best-looking output when none looks good', () => {
+    expect(recommendSettings(LOW_CURVE, options())).toEqual({ resolution: 480, targetSizeMB: 38, ssim: 0.93 });
+  });
+
+  it('returns null when the audio alone fills the limit', () => {
+    expect(recommendSettings(CURVE, options({ maxSizeMB: 1, duration: 600 }))).toBeNull();
+  });
+});
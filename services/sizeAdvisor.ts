@@ -0,0 +1,219 @@
+import { OUTPUT_FORMATS, OutputFormat } from './encodePipeline';
+
+// Suggests a target size and resolution for one clip. A few short windows of
+// the clip are encoded at several bitrates and scored with SSIM, which gives
+// this clip's quality for a given number of bits per pixel. Every resolution
+// is then read off the same curve at the bits per pixel a size would give it.
+
+const SAMPLE_WINDOWS = 3;
+const SAMPLE_SECONDS = 2;
+// Samples are scaled to this height first, so the encodes stay quick.
+const ANALYSIS_HEIGHT = 480;
+export const SAMPLE_BITS_PER_PIXEL = [0.02, 0.05, 0.1, 0.2];
+
+// The SSIM verdicts of the quality check.
+const EXCELLENT_SSIM = 0.98;
+const GOOD_SSIM = 0.95;
+const POOR_SSIM = 0.9;
+// Without a curve, warn below this share of the format's typical bits per pixel.
+const LOW_BITS_SHARE = 0.25;
+
+export interface Destination {
+  id: string;
+  label: string;
+  maxSizeMB: number | null; // null uses the current target size
+}
+
+// Like the built-in presets, each limit sits a little under the service's own.
+export const DESTINATIONS: Destination[] = [
+  { id: 'current', label: 'Current target size', maxSizeMB: null },
+  { id: 'whatsapp', label: 'WhatsApp (16 MB)', maxSizeMB: 15 },
+  { id: 'discord-10', label: 'Discord (10 MB)', maxSizeMB: 9 },
+  { id: 'discord-25', label: 'Discord (25 MB)', maxSizeMB: 24 },
+  // Attachments grow by a third when encoded into the message.
+  { id: 'email', label: 'Email attachment (25 MB)', maxSizeMB: 18 },
+];
+
+export interface SampleWindow {
+  start: number; // on the source timeline
+  duration: number;
+}
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export interface CurvePoint {
+  bitsPerPixel: number;
+  ssim: number;
+}
+
+/** Evenly spaced windows over the trimmed clip; a short clip is sampled whole. */
+export const getSampleWindows = (clipStart: number, clipDuration: number): SampleWindow[] => {
+  if (clipDuration <= SAMPLE_WINDOWS * SAMPLE_SECONDS) {
+    return [{ start: clipStart, duration: clipDuration }];
+  }
+  return Array.from({ length: SAMPLE_WINDOWS }, (_, i) => ({
+    start: clipStart + (clipDuration * (i + 0.5)) / SAMPLE_WINDOWS - SAMPLE_SECONDS / 2,
+    duration: SAMPLE_SECONDS,
+  }));
+};
+
+/** The frame size of the joined sample for a source of `displayAspect` (width / height). */
+export const getSampleSize = (displayAspect: number): FrameSize => ({
+  width: Math.round((ANALYSIS_HEIGHT * displayAspect) / 2) * 2,
+  height: ANALYSIS_HEIGHT,
+});
+
+/**
+ * The command that cuts the windows out of the source and joins them into one
+ * losslessly coded sample, which every test encode then reads and is scored
+ * against.
+ */
+export const buildSampleArgs = (input: string, windows: SampleWindow[], output: string): string[] => {
+  const inputArgs = windows.flatMap((window) => ['-ss', window.start.toFixed(3), '-t', window.duration.toFixed(3), '-i', input]);
+  const scaled = windows.map((_, i) => `[${i}:V:0]scale=-2:${ANALYSIS_HEIGHT},setsar=1,format=yuv420p[s${i}]`);
+  const joined = `${windows.map((_, i) => `[s${i}]`).join('')}concat=n=${windows.length}:v=1:a=0[sample]`;
+  return [
+    '-y', ...inputArgs,
+    '-filter_complex', [...scaled, joined].join(';'),
+    '-map', '[sample]', '-c:v', 'libx264', '-preset', 'ultrafast', '-qp', '0', '-an',
+    output,
+  ];
+};
+
+/** One test encode of the sample at a fixed bitrate, with the encoder of the real encode. */
+export const buildSampleEncodeArgs = (sample: string, output: string, outputFormat: OutputFormat, bitrate: number, threads: number | null): string[] => {
+  const format = OUTPUT_FORMATS[outputFormat];
+  return [
+    '-y', '-i', sample,
+    '-c:v', format.encoder,
+    '-b:v', `${Math.round(bitrate)}k`,
+    ...format.encoderArgs,
+    ...(threads !== null ? ['-threads', String(threads)] : []),
+    '-an',
+    output,
+  ];
+};
+
+/** Video bitrate in kbit/s that spends `bitsPerPixel` on every pixel of every frame. */
+export const getBitrateForBitsPerPixel = (bitsPerPixel: number, frame: FrameSize, fps: number): number =>
+  (bitsPerPixel * frame.width * frame.height * fps) / 1000;
+
+/**
+ * Bits per pixel the video gets when a clip of `duration` has to fit
+ * `sizeMB`, split like getVideoBitrates does. Zero when the audio alone fills it.
+ */
+export const getBitsPerPixel = (sizeMB: number, duration: number, audioBitrate: number, frame: FrameSize, fps: number): number => {
+  const videoBitrate = (sizeMB * 1024 * 8) / duration - audioBitrate;
+  return videoBitrate > 0 ? (videoBitrate * 1000) / (frame.width * frame.height * fps) : 0;
+};
+
+const getSizeForBitsPerPixel = (bitsPerPixel: number, duration: number, audioBitrate: number, frame: FrameSize, fps: number): number =>
+  ((getBitrateForBitsPerPixel(bitsPerPixel, frame, fps) + audioBitrate) * duration) / (1024 * 8);
+
+/**
+ * Orders the measured points and makes quality rise with the bitrate, which
+ * short test encodes do not always manage on their own.
+ */
+export const toCurve = (points: CurvePoint[]): CurvePoint[] => {
+  let best = 0;
+  return [...points]
+    .sort((a, b) => a.bitsPerPixel - b.bitsPerPixel)
+    .map((point) => {
+      best = Math.max(best, point.ssim);
+      return { ...point, ssim: best };
+    });
+};
+
+// SSIM is close to linear in the logarithm of the bitrate over the sampled range.
+const interpolate = (a: CurvePoint, b: CurvePoint, bitsPerPixel: number): number => {
+  const t = Math.log(bitsPerPixel / a.bitsPerPixel) / Math.log(b.bitsPerPixel / a.bitsPerPixel);
+  return a.ssim + (b.ssim - a.ssim) * t;
+};
+
+/**
+ * SSIM the clip is expected to reach at `bitsPerPixel`. Below the sampled
+ * range the curve is extended downwards; above it quality is taken to level off.
+ */
+export const predictSsim = (curve: CurvePoint[], bitsPerPixel: number): number => {
+  if (bitsPerPixel <= 0) return 0;
+  const last = curve[curve.length - 1];
+  if (curve.length === 1 || bitsPerPixel >= last.bitsPerPixel) return last.ssim;
+  const upper = Math.max(1, curve.findIndex((point) => point.bitsPerPixel > bitsPerPixel));
+  return Math.min(Math.max(interpolate(curve[upper - 1], curve[upper], bitsPerPixel), 0), 1);
+};
+
+// The inverse of predictSsim within the sampled range; null when the clip never gets there.
+const bitsPerPixelForSsim = (curve: CurvePoint[], ssim: number): number | null => {
+  const upper = curve.findIndex((point) => point.ssim >= ssim);
+  if (upper === -1) return null;
+  if (upper === 0) return curve[0].bitsPerPixel;
+  const a = curve[upper - 1];
+  const b = curve[upper];
+  const t = (ssim - a.ssim) / (b.ssim - a.ssim);
+  return a.bitsPerPixel * Math.pow(b.bitsPerPixel / a.bitsPerPixel, t);
+};
+
+export interface SizeRecommendation {
+  resolution: number;
+  targetSizeMB: number;
+  ssim: number; // predicted
+}
+
+export interface RecommendationOptions {
+  maxSizeMB: number;
+  duration: number; // of each output file
+  audioBitrate: number;
+  fps: number;
+  // Output frame per resolution setting, highest resolution first.
+  outputs: (FrameSize & { resolution: number })[];
+}
+
+/**
+ * The highest resolution that still looks good within the size limit, or the
+ * best-looking one when none does, at the smallest whole size that reaches
+ * excellent quality there. Null when the audio alone fills the limit.
+ */
+export const recommendSettings = (curve: CurvePoint[], options: RecommendationOptions): SizeRecommendation | null => {
+  const { maxSizeMB, duration, audioBitrate, fps } = options;
+  const candidates = options.outputs.map((output) => ({
+    output,
+    ssim: predictSsim(curve, getBitsPerPixel(maxSizeMB, duration, audioBitrate, output, fps)),
+  }));
+  if (candidates.length === 0 || candidates.every((candidate) => candidate.ssim === 0)) return null;
+
+  const { output } = candidates.find((candidate) => candidate.ssim >= GOOD_SSIM)
+    ?? candidates.reduce((best, candidate) => (candidate.ssim > best.ssim ? candidate : best));
+  const excellent = bitsPerPixelForSsim(curve, EXCELLENT_SSIM);
+  const targetSizeMB = excellent === null
+    ? maxSizeMB
+    : Math.min(maxSizeMB, Math.max(1, Math.ceil(getSizeForBitsPerPixel(excellent, duration, audioBitrate, output, fps))));
+  return {
+    resolution: output.resolution,
+    targetSizeMB,
+    ssim: predictSsim(curve, getBitsPerPixel(targetSizeMB, duration, audioBitrate, output, fps)),
+  };
+};
+
+/**
+ * A warning when `bitsPerPixel` is too few for a watchable result. With a
+ * curve the clip's own predicted SSIM decides; without one, a fixed share of
+ * what the format typically needs.
+ */
+export const getLowBitrateWarning = (bitsPerPixel: number, outputFormat: OutputFormat, curve: CurvePoint[] | null): string | null => {
+  // No bits for video at all is reported as a size that is too small instead.
+  if (bitsPerPixel <= 0) return null;
+  const perPixel = bitsPerPixel.toFixed(3);
+  if (curve) {
+    const ssim = predictSsim(curve, bitsPerPixel);
+    return ssim < POOR_SSIM
+      ? `At ${perPixel} bits per pixel this clip is predicted to reach only SSIM ${ssim.toFixed(3)}; expect heavy blocking. Lower the resolution or raise the size.`
+      : null;
+  }
+  const format = OUTPUT_FORMATS[outputFormat];
+  return bitsPerPixel < format.bitsPerPixel * LOW_BITS_SHARE
+    ? `Only ${perPixel} bits per pixel, too few for ${format.label} to look clean. Lower the resolution or raise the size, or analyze the clip for a closer estimate.`
+    : null;
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { parseSubtitles, serializeSrt, shiftCues, SubtitleCue } from './subtitleParser';
+
+const SRT = `1
+00:00:01,500 --> 00:00:03,000
+Hello there
+
+2
+00:01:02,345 --> 00:01:04,000
+<i>Two</i>
+<b>lines</b>
+`;
+
+const VTT = `WEBVTT - with a title
+
+NOTE
+This block is a comment, not a cue.
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:01.000 --> 00:02.500 align:start position:10%
+<v Roger>Hi <c.loud>there</c></v>
+
+01:00:00.000 --> 01:00:01.250
+An hour in
+`;
+
+describe('parseSubtitles', () => {
+  it('reads SRT timestamps with a comma before the milliseconds', () => {
+    expect(parseSubtitles(SRT)).toEqual([
+      { start: 1.5, end: 3, text: 'Hello there' },
+      { start: 62.345, end: 64, text: '<i>Two</i>\n<b>lines</b>' },
+    ]);
+  });
+
+  it('reads WebVTT timestamps with a dot and without hours, skipping NOTE and STYLE blocks', () => {
+    expect(parseSubtitles(VTT)).toEqual([
+      { start: 1, end: 2.5, text: 'Hi there' },
+      { start: 3600, end: 3601.25, text: 'An hour in' },
+    ]);
+  });
+
+  it('ignores a byte order mark and CRLF line endings', () => {
+    const windows = `\uFEFF${SRT.replace(/\n/g, '\r\n')}`;
+    expect(parseSubtitles(windows)).toEqual(parseSubtitles(SRT));
+  });
+
+  it('strips tags libass cannot render but keeps italic, bold and underline', () => {
+    const [cue] = parseSubtitles('1\n00:00:00,000 --> 00:00:01,000\n<font color="red">Red</font> <u>under</u> <ruby>字<rt>ji</rt></ruby>\n');
+    expect(cue.text).toBe('Red <u>under</u> 字ji');
+  });
+
+  it('skips malformed, backwards and empty cues and sorts the rest', () => {
+    const content = [
+      '1\n00:00:05,000 --> 00:00:06,000\nLater',
+      '2\n00:00:02,000 --> 00:00:01,000\nBackwards',
+      '3\n00:00:x1,000 --> 00:00:02,000\nBroken',
+      '4\n00:00:03,000 --> 00:00:04,000\n<c></c>',
+      '5\n00:00:01,000 --> 00:00:02,000\nSooner',
+    ].join('\n\n');
+    expect(parseSubtitles(content).map((cue) => cue.text)).toEqual(['Sooner', 'Later']);
+  });
+});
+
+describe('shiftCues', () => {
+  const cues: SubtitleCue[] = [
+    { start: 0, end: 4, text: 'before' },
+    { start: 8, end: 12, text: 'straddles the start' },
+    { start: 14, end: 16, text: 'inside' },
+    { start: 18, end: 25, text: 'straddles the end' },
+    { start: 30, end: 32, text: 'after' },
+  ];
+
+  it('moves cues onto the clip, clamps the edges and drops the rest', () => {
+    expect(shiftCues(cues, 10, 10)).toEqual([
+      { start: 0, end: 2, text: 'straddles the start' },
+      { start: 4, end: 6, text: 'inside' },
+      { start: 8, end: 10, text: 'straddles the end' },
+    ]);
+  });
+
+  it('drops a cue that only touches the edge', () => {
+    expect(shiftCues([{ start: 6, end: 10, text: 'ends at the cut' }], 10, 5)).toEqual([]);
+  });
+});
+
+describe('serializeSrt', () => {
+  it('numbers the cues and pads every timestamp field', () => {
+    expect(serializeSrt([
+      { start: 0.5, end: 2, text: 'One' },
+      { start: 3723.0456, end: 3725, text: 'Two\nlines' },
+    ])).toBe('1\n00:00:00,500 --> 00:00:02,000\nOne\n\n2\n01:02:03,046 --> 01:02:05,000\nTwo\nlines\n');
+  });
+
+  it('round-trips through parseSubtitles', () => {
+    const cues = parseSubtitles(SRT);
+    expect(parseSubtitles(serializeSrt(cues))).toEqual(cues);
+  });
+});
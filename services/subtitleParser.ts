@@ -0,0 +1,74 @@
+export interface SubtitleCue {
+  start: number; // seconds on the source timeline
+  end: number;
+  text: string; // may contain <i>, <b> and <u>, which libass renders
+}
+
+const TIMING_PATTERN = /^\s*([\d:.,]+)\s+-->\s+([\d:.,]+)/;
+// WebVTT voice, class and karaoke tags have no SRT equivalent.
+const UNSUPPORTED_TAG_PATTERN = /<(?!\/?[ibu]>)[^>]*>/g;
+
+// Accepts SRT ("00:01:02,345") and WebVTT ("00:01:02.345" or "01:02.345") timestamps.
+const parseCueTime = (value: string): number | null => {
+  const parts = value.replace(',', '.').split(':');
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+/**
+ * Parses an SRT or WebVTT file into cues. Blocks without a timing line
+ * (the WEBVTT header, NOTE and STYLE blocks) and malformed cues are skipped.
+ */
+export const parseSubtitles = (content: string): SubtitleCue[] => {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => TIMING_PATTERN.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, startValue, endValue] = lines[timingIndex].match(TIMING_PATTERN)!;
+    const start = parseCueTime(startValue);
+    const end = parseCueTime(endValue);
+    const text = lines
+      .slice(timingIndex + 1)
+      .map((line) => line.replace(UNSUPPORTED_TAG_PATTERN, '').trim())
+      .filter(Boolean)
+      .join('\n');
+    if (start === null || end === null || end <= start || !text) continue;
+
+    cues.push({ start, end, text });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Moves cues onto the timeline of a clip cut from `clipStart`, dropping the
+ * ones outside it and clamping those that straddle an edge.
+ */
+export const shiftCues = (cues: SubtitleCue[], clipStart: number, clipDuration: number): SubtitleCue[] =>
+  cues
+    .map((cue) => ({
+      ...cue,
+      start: Math.max(cue.start - clipStart, 0),
+      end: Math.min(cue.end - clipStart, clipDuration),
+    }))
+    .filter((cue) => cue.end > cue.start);
+
+const formatSrtTime = (seconds: number): string => {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)},${pad(ms, 3)}`;
+};
+
+export const serializeSrt = (cues: SubtitleCue[]): string =>
+  cues
+    .map((cue, i) => `${i + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}\n${cue.text}\n`)
+    .join('\n');
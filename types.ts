@@ -1,3 +1,4 @@
+import type { AnimationFormat, AspectRatio, AudioChannels, AudioFormat, OutputFormat, OverlayPosition, RateControl, ReframeMode, Rotation, SubtitleFont, SubtitleMode, SubtitlePosition, SubtitleSize, VideoInfo } from './services/ffmpegService';
 
 export enum AppState {
   IDLE,
@@ -7,3 +8,107 @@ export enum AppState {
   DONE,
   ERROR,
 }
+
+export type OverlayType = 'none' | 'image' | 'text';
+
+// The logo and subtitle files are not settings: they belong to one video and live in App state.
+export interface CompressionSettings {
+  resolution: number;
+  removeAudio: boolean;
+  targetSizeMB: number;
+  convertToGif: boolean; // exports an animated image in animationFormat, not only GIF
+  startTime: string;
+  endTime: string;
+  // Named for GIF, but used by every animation format.
+  gifFps: number;
+  gifResolution: number;
+  animationFormat: AnimationFormat;
+  animationLoop: number; // plays; 0 loops forever
+  animationPingPong: boolean;
+  animationSpeed: number;
+  webpQuality: number;
+  webpLossless: boolean;
+  animationSizeLimit: boolean;
+  animationTargetSizeMB: number;
+  twoPass: boolean;
+  splitForStatus: boolean;
+  segmentLength: number;
+  aspectRatio: AspectRatio;
+  reframeMode: ReframeMode;
+  padColor: string;
+  cropOffset: number;
+  // Manual turns and mirroring; the source's own rotation is applied regardless.
+  rotate: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  outputFormat: OutputFormat;
+  rateControl: RateControl;
+  crf: number;
+  audioStreamIndex: number | null;
+  audioBitrate: number;
+  audioChannels: AudioChannels;
+  normalizeLoudness: boolean;
+  fadeAudio: boolean;
+  extractAudio: boolean;
+  audioFormat: AudioFormat;
+  overlayType: OverlayType;
+  overlayText: string;
+  overlayPosition: OverlayPosition;
+  overlaySize: number;
+  overlayOpacity: number;
+  overlayStartTime: string;
+  overlayEndTime: string;
+  subtitleMode: SubtitleMode;
+  subtitleFont: SubtitleFont;
+  subtitleSize: SubtitleSize;
+  subtitlePosition: SubtitlePosition;
+}
+
+// Trim points, the picked audio track and the orientation belong to one video, so presets leave them alone.
+export type PresetSettings = Omit<CompressionSettings, 'startTime' | 'endTime' | 'audioStreamIndex' | 'rotate' | 'flipHorizontal' | 'flipVertical'>;
+
+export interface Preset {
+  id: string;
+  name: string;
+  // Built-in presets only set what their destination cares about; saved ones hold everything.
+  settings: Partial<PresetSettings>;
+  builtIn: boolean;
+}
+
+export enum JobStatus {
+  QUEUED,
+  PROCESSING,
+  DONE,
+  ERROR,
+}
+
+// Settings a single queued file may override on top of the shared settings.
+export type JobOverrides = Partial<Pick<CompressionSettings, 'resolution' | 'targetSizeMB' | 'convertToGif'>>;
+
+export interface QueueJob {
+  id: string;
+  file: File;
+  thumbnail: string | null;
+  metadata: VideoInfo | null;
+  status: JobStatus;
+  progress: number;
+  error: string | null;
+  overrides: JobOverrides;
+  result: Blob | null;
+  resultName: string | null;
+}
+
+// A finished job kept in the browser. The output files are stored separately
+// and only read back when they're downloaded or copied again.
+export interface HistoryEntry {
+  id: string;
+  sourceName: string;
+  sourceSize: number;
+  settings: CompressionSettings; // as used, including the trim range
+  outputNames: string[]; // several for Status parts
+  outputType: string; // MIME type
+  outputSize: number; // all outputs together
+  duration: number; // seconds of video that were encoded
+  thumbnail: string | null;
+  createdAt: number;
+}
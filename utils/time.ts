@@ -0,0 +1,52 @@
+/**
+ * Parses a timestamp typed by the user ("75", "1:15", "00:01:15.5") into
+ * seconds. Returns null for empty or malformed input.
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parts = trimmed.split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+/**
+ * Formats seconds as "HH:MM:SS.ss", a form both FFmpeg and `parseTimestamp` accept.
+ */
+export const formatTimestamp = (value: number) => {
+  // Round first so 59.999 becomes the next minute rather than "60.00" seconds.
+  const totalSeconds = Math.round(value * 100) / 100;
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toFixed(2).padStart(5, '0')}`;
+};
+
+export interface TrimRange {
+  start: number;
+  end: number;
+  duration: number;
+  error: string | null;
+}
+
+/**
+ * Resolves the optional start/end inputs against the source duration. Empty
+ * inputs mean "from the beginning" and "to the end".
+ */
+export const getTrimRange = (sourceDuration: number, startTime: string, endTime: string): TrimRange => {
+  const parsedStart = startTime.trim() ? parseTimestamp(startTime) : 0;
+  const parsedEnd = endTime.trim() ? parseTimestamp(endTime) : sourceDuration;
+  const start = parsedStart ?? 0;
+  const end = parsedEnd ?? sourceDuration;
+
+  let error: string | null = null;
+  if (parsedStart === null || parsedEnd === null) {
+    error = 'Use a time like 75, 1:15 or 00:01:15.5.';
+  } else if (end > sourceDuration + 0.01) {
+    error = 'End time is past the end of the video.';
+  } else if (start >= end) {
+    error = 'Start time must be before the end time.';
+  }
+
+  return { start, end, duration: Math.max(end - start, 0), error };
+};
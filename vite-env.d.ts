@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Folder holding ffmpeg-core.js and ffmpeg-core.wasm. Defaults to the copy bundled with the build.
+  readonly VITE_FFMPEG_CORE_URL?: string;
+  // Same for the multi-threaded core, which also needs ffmpeg-core.worker.js.
+  readonly VITE_FFMPEG_CORE_MT_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
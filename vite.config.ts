@@ -2,22 +2,48 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// Cross-origin isolation unlocks SharedArrayBuffer and with it the multi-threaded
+// FFmpeg core. "credentialless" keeps the Tailwind and font CDNs loading without CORP headers.
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+};
+
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        headers: crossOriginIsolationHeaders,
+      },
+      preview: {
+        headers: crossOriginIsolationHeaders,
       },
       plugins: [react()],
+      // The SSR build is the vidwa CLI (npm run build:cli), which has no use for the web assets.
+      publicDir: isSsrBuild ? false : 'public',
+      // Pre-bundling breaks the module worker FFmpeg spawns from its own package.
+      optimizeDeps: {
+        exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util'],
+      },
+      build: {
+        // Keep the small core worker a real file so it is fetched and cached like the rest of the core.
+        assetsInlineLimit: (filePath: string) => (filePath.includes('ffmpeg-core') ? false : undefined),
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },
       resolve: {
-        alias: {
-          '@': path.resolve(__dirname, '.'),
-        }
+        alias: [
+          { find: '@', replacement: path.resolve(__dirname, '.') },
+          // Not in the package's exports map, but the multi-threaded core needs it.
+          {
+            find: /^@ffmpeg\/core-mt\/worker(?=\?|$)/,
+            replacement: path.resolve(__dirname, 'node_modules/@ffmpeg/core-mt/dist/esm/ffmpeg-core.worker.js'),
+          },
+        ]
       }
     };
 });